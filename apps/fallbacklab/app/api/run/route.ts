@@ -1,18 +1,25 @@
 import { NextResponse, type NextRequest } from "next/server";
-import { fallback, type Candidate } from "@khalidsaidi/fallback-chain-js";
+import {
+  createFallbackChain,
+  createMemoryStore,
+  fallbackWithReport,
+  serializeAttempt,
+  withCache,
+  type AttemptInfo,
+  type CacheStore,
+  type CachedChain,
+  type Candidate
+} from "@khalidsaidi/fallback-chain-js";
 import { FieldValue } from "firebase-admin/firestore";
 import { getAdminAuth, getAdminDb } from "@/lib/server/firebase-admin";
 import { getGenAI } from "@/lib/server/genai";
 
 export const runtime = "nodejs";
 
-type AttemptLog = {
-  attempt: number;
-  name?: string;
-  outcome: "success" | "rejected" | "unacceptable" | "timeout" | "aborted";
-  durationMs: number;
-  error?: string;
-};
+function toAttemptLog(info: AttemptInfo<unknown>) {
+  const { attempt, name, outcome, durationMs, error } = serializeAttempt(info);
+  return { attempt, name, outcome, durationMs, error: error?.message };
+}
 
 type PageResult = {
   text: string;
@@ -63,6 +70,106 @@ async function fetchText(url: string, signal: AbortSignal) {
   return text;
 }
 
+const firestorePageStore: CacheStore<PageResult> = {
+  async get(key) {
+    const doc = await getAdminDb().collection("pageCache").doc(key).get();
+    if (!doc.exists) return undefined;
+    const data = doc.data() as
+      | {
+          text?: string;
+          source?: string;
+          fetchedAtMs?: number;
+          updatedAt?: { toMillis?: () => number };
+          winner?: { name?: string; attempt: number; index: number; retry: number };
+        }
+      | undefined;
+    const storedAt = data?.fetchedAtMs ?? data?.updatedAt?.toMillis?.();
+    if (!data?.text || !storedAt) return undefined;
+    return {
+      value: { text: data.text, source: data.source ?? "fetch" },
+      storedAt,
+      winner: data.winner ?? { attempt: 0, index: 0, retry: 0 }
+    };
+  },
+  async set(key, { value, storedAt, winner }) {
+    await getAdminDb()
+      .collection("pageCache")
+      .doc(key)
+      .set(
+        {
+          url: Buffer.from(key, "base64url").toString(),
+          text: value.text,
+          source: value.source,
+          winner,
+          fetchedAtMs: storedAt,
+          updatedAt: FieldValue.serverTimestamp()
+        },
+        { merge: true }
+      );
+  },
+  async delete(key) {
+    await getAdminDb().collection("pageCache").doc(key).delete();
+  }
+};
+
+/** Without Firestore pages aren't cached, unless an in-process cache is asked for. */
+const noPageStore: CacheStore<PageResult> = {
+  async get() {
+    return undefined;
+  },
+  async set() {},
+  async delete() {}
+};
+
+function getPageStore(): CacheStore<PageResult> {
+  if (process.env.GOOGLE_SA_KEY_B64) return firestorePageStore;
+  if (process.env.FALLBACKLAB_MEMORY_CACHE === "1") return createMemoryStore({ maxEntries: 100 });
+  return noPageStore;
+}
+
+let pageChain: CachedChain<string, PageResult> | undefined;
+
+/** Page fetchers keyed by URL, coalesced and cached for a day (see `getPageStore`). */
+function getPageChain() {
+  if (pageChain) return pageChain;
+
+  const candidates: Candidate<PageResult, string>[] = [
+    {
+      name: "direct-fetch",
+      run: async ({ input: url, signal }) => {
+        const text = await fetchText(url, signal);
+        return { text: text.slice(0, 200_000), source: "fetch" };
+      }
+    }
+  ];
+
+  const mirrorPrefix = process.env.FALLBACKLAB_MIRROR_PREFIX;
+  if (mirrorPrefix) {
+    candidates.push({
+      name: "mirror-fetch",
+      run: async ({ input: url, signal }) => {
+        const text = await fetchText(`${mirrorPrefix}${url}`, signal);
+        return { text: text.slice(0, 200_000), source: "mirror" };
+      }
+    });
+  }
+
+  pageChain = withCache(
+    createFallbackChain(candidates, {
+      accept: (value) => Boolean(value.text && value.text.length > 0),
+      // Concurrent requests for the same URL share one fetch on a cache miss.
+      singleFlight: (url) => url
+    }),
+    {
+      key: getCacheId,
+      ttlMs: ONE_DAY_MS,
+      staleIfErrorMs: 7 * ONE_DAY_MS,
+      store: getPageStore()
+    }
+  );
+  return pageChain;
+}
+
 export async function POST(req: NextRequest) {
   const body = await req.json().catch(() => null);
   if (!body || typeof body !== "object") {
@@ -97,89 +204,11 @@ export async function POST(req: NextRequest) {
     }
   }
 
-  const pageAttempts: AttemptLog[] = [];
-  const summaryAttempts: AttemptLog[] = [];
-
   const timeoutMs = typeof options?.timeoutMs === "number" ? options.timeoutMs : 8000;
-  const cacheId = getCacheId(url);
-
-  const pageCandidates: Candidate<PageResult>[] = [];
-
-  if (process.env.GOOGLE_SA_KEY_B64) {
-    pageCandidates.push({
-      name: "firestore-cache",
-      run: async () => {
-        const db = getAdminDb();
-        const doc = await db.collection("pageCache").doc(cacheId).get();
-        if (!doc.exists) throw new Error("cache_miss");
-        const data = doc.data() as { text?: string; updatedAt?: { toMillis?: () => number }; fetchedAtMs?: number } | undefined;
-        const cachedAt = data?.updatedAt?.toMillis?.() ?? data?.fetchedAtMs;
-        if (!data?.text || !cachedAt) throw new Error("cache_invalid");
-        if (Date.now() - cachedAt > ONE_DAY_MS) throw new Error("cache_stale");
-        return { text: data.text, source: "cache" };
-      }
-    });
-  }
-
-  pageCandidates.push({
-    name: "direct-fetch",
-    run: async ({ signal }) => {
-      const text = await fetchText(url, signal);
-      const trimmed = text.slice(0, 200_000);
-      if (process.env.GOOGLE_SA_KEY_B64) {
-        const db = getAdminDb();
-        await db.collection("pageCache").doc(cacheId).set(
-          {
-            url,
-            text: trimmed,
-            fetchedAtMs: Date.now(),
-            updatedAt: FieldValue.serverTimestamp()
-          },
-          { merge: true }
-        );
-      }
-      return { text: trimmed, source: "fetch" };
-    }
-  });
 
-  const mirrorPrefix = process.env.FALLBACKLAB_MIRROR_PREFIX;
-  if (mirrorPrefix) {
-    pageCandidates.push({
-      name: "mirror-fetch",
-      run: async ({ signal }) => {
-        const mirrorUrl = `${mirrorPrefix}${url}`;
-        const text = await fetchText(mirrorUrl, signal);
-        const trimmed = text.slice(0, 200_000);
-        if (process.env.GOOGLE_SA_KEY_B64) {
-          const db = getAdminDb();
-          await db.collection("pageCache").doc(cacheId).set(
-            {
-              url,
-              text: trimmed,
-              fetchedAtMs: Date.now(),
-              updatedAt: FieldValue.serverTimestamp()
-            },
-            { merge: true }
-          );
-        }
-        return { text: trimmed, source: "mirror" };
-      }
-    });
-  }
-
-  const page = await fallback(pageCandidates, {
-    timeoutMs,
-    accept: (value) => Boolean(value.text && value.text.length > 0),
-    onAttempt: (info) => {
-      pageAttempts.push({
-        attempt: info.attempt,
-        name: info.name,
-        outcome: info.outcome,
-        durationMs: info.durationMs,
-        error: info.error ? String((info.error as Error).message ?? info.error) : undefined
-      });
-    }
-  });
+  const pageReport = await getPageChain().runWithReport(url, { timeoutMs });
+  const page = pageReport.cache === "miss" ? pageReport.value : { ...pageReport.value, source: "cache" };
+  const pageAttempts = pageReport.attempts.map(toAttemptLog);
 
   const summaryCandidates: Candidate<SummaryResult>[] = [];
 
@@ -252,18 +281,11 @@ export async function POST(req: NextRequest) {
     }
   });
 
-  const summary = await fallback(summaryCandidates, {
-    accept: (value) => Boolean(value.answer && value.answer.length > 0),
-    onAttempt: (info) => {
-      summaryAttempts.push({
-        attempt: info.attempt,
-        name: info.name,
-        outcome: info.outcome,
-        durationMs: info.durationMs,
-        error: info.error ? String((info.error as Error).message ?? info.error) : undefined
-      });
-    }
+  const summaryReport = await fallbackWithReport(summaryCandidates, {
+    accept: (value) => Boolean(value.answer && value.answer.length > 0)
   });
+  const summary = summaryReport.value;
+  const summaryAttempts = summaryReport.attempts.map(toAttemptLog);
 
   let runId: string | null = null;
   if (userId && !demo && process.env.GOOGLE_SA_KEY_B64) {
@@ -286,6 +308,7 @@ export async function POST(req: NextRequest) {
     page: {
       text: page.text,
       source: page.source,
+      cache: pageReport.cache,
       attempts: pageAttempts
     },
     summary: {
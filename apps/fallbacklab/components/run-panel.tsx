@@ -11,18 +11,19 @@ import { Separator } from "@/components/ui/separator";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import type { AttemptOutcome, CacheStatus } from "@khalidsaidi/fallback-chain-js";
 
 type AttemptLog = {
   attempt: number;
   name?: string;
-  outcome: "success" | "rejected" | "unacceptable" | "timeout" | "aborted";
+  outcome: AttemptOutcome;
   durationMs: number;
   error?: string;
 };
 
 type RunResponse = {
   runId?: string | null;
-  page: { text: string; source: string; attempts: AttemptLog[] };
+  page: { text: string; source: string; cache?: CacheStatus; attempts: AttemptLog[] };
   summary: { answer: string; provider: string; bullets?: string[]; attempts: AttemptLog[] };
 };
 
@@ -31,7 +32,10 @@ const outcomeStyles: Record<AttemptLog["outcome"], string> = {
   rejected: "border-amber-500/30 bg-amber-500/10 text-amber-700",
   unacceptable: "border-purple-500/30 bg-purple-500/10 text-purple-700",
   timeout: "border-rose-500/30 bg-rose-500/10 text-rose-700",
-  aborted: "border-slate-500/30 bg-slate-500/10 text-slate-700"
+  aborted: "border-slate-500/30 bg-slate-500/10 text-slate-700",
+  cancelled: "border-slate-500/30 bg-slate-500/10 text-slate-700",
+  skipped: "border-sky-500/30 bg-sky-500/10 text-sky-700",
+  saturated: "border-sky-500/30 bg-sky-500/10 text-sky-700"
 };
 
 export function RunPanel() {
@@ -178,6 +182,7 @@ export function RunPanel() {
                 <div className="flex flex-wrap items-center gap-2">
                   <Badge variant="outline" className="border-border/60">
                     Source: {result.page.source}
+                    {result.page.cache === "stale" ? " (stale)" : ""}
                   </Badge>
                   <Badge variant="outline" className="border-border/60">
                     Provider: {result.summary.provider}
@@ -0,0 +1,224 @@
+import type { MaybePromise } from "./index.js";
+
+/**
+ * Blocks inference from a position, like TypeScript 5.4's `NoInfer`, but also
+ * in the published declarations for consumers on older compilers.
+ */
+export type Uninferred<T> = [T][T extends any ? 0 : never];
+
+/** What an `accept` check returns: a boolean, or a verdict that can say why a value was rejected */
+export type AcceptVerdict = boolean | { ok: true } | { ok: false; reason?: string };
+
+/** An `accept` check, sync or async, over a value and the option's extra arguments */
+export type AcceptCheck<V, A extends unknown[] = [ctx: { attempt: number; retry: number }]> = (
+  value: V,
+  ...args: A
+) => MaybePromise<AcceptVerdict>;
+
+/** Normalize a verdict to `{ ok, reason? }`. */
+export function readVerdict(verdict: AcceptVerdict): { ok: boolean; reason?: string } {
+  return typeof verdict === "boolean" ? { ok: verdict } : verdict;
+}
+
+function isPromiseLike<T>(value: MaybePromise<T>): value is PromiseLike<T> {
+  return typeof (value as PromiseLike<T> | null)?.then === "function";
+}
+
+/** Apply `fn` to a value that may still be pending, staying synchronous when it isn't. */
+export function thenVerdict<R>(
+  verdict: MaybePromise<AcceptVerdict>,
+  fn: (verdict: AcceptVerdict) => MaybePromise<R>
+): MaybePromise<R> {
+  return isPromiseLike(verdict) ? Promise.resolve(verdict).then(fn) : fn(verdict);
+}
+
+// ─────────────────────────────────────────────────────────────
+// Combinators
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Accept when every check does. Checks run in order and stop at the first
+ * rejection, whose verdict (and reason) is returned.
+ */
+export function allOf<V, A extends unknown[]>(...checks: Array<AcceptCheck<Uninferred<V>, Uninferred<A>>>): AcceptCheck<V, A> {
+  return (value, ...args) => {
+    const from = (i: number): MaybePromise<AcceptVerdict> => {
+      if (i >= checks.length) return true;
+      return thenVerdict(checks[i]!(value, ...args), (verdict) => (readVerdict(verdict).ok ? from(i + 1) : verdict));
+    };
+    return from(0);
+  };
+}
+
+/**
+ * Accept when any check does. Checks run in order and stop at the first
+ * acceptance; if none accepts, the reasons given are joined.
+ */
+export function anyOf<V, A extends unknown[]>(...checks: Array<AcceptCheck<Uninferred<V>, Uninferred<A>>>): AcceptCheck<V, A> {
+  return (value, ...args) => {
+    const reasons: string[] = [];
+    const from = (i: number): MaybePromise<AcceptVerdict> => {
+      if (i >= checks.length) return reasons.length > 0 ? { ok: false, reason: reasons.join("; ") } : false;
+      return thenVerdict(checks[i]!(value, ...args), (verdict) => {
+        const { ok, reason } = readVerdict(verdict);
+        if (ok) return true;
+        if (reason !== undefined) reasons.push(reason);
+        return from(i + 1);
+      });
+    };
+    return from(0);
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Standard Schema (Zod, Valibot, ArkType, ...)
+// ─────────────────────────────────────────────────────────────
+
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+}
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/** The part of the Standard Schema v1 interface (standardschema.dev) used here */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => MaybePromise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+  };
+}
+
+/** Output type of a Standard Schema, e.g. `fallback<SchemaOutput<typeof Answer>>(...)` */
+export type SchemaOutput<S extends StandardSchemaV1> = S extends StandardSchemaV1<unknown, infer O> ? O : never;
+
+function describeIssue(issue: StandardSchemaIssue): string {
+  if (!issue.path || issue.path.length === 0) return issue.message;
+  const path = issue.path.map((p) => String(typeof p === "object" ? p.key : p)).join(".");
+  return `${path}: ${issue.message}`;
+}
+
+/**
+ * Accept values that pass a Standard Schema validator; the issues become the
+ * `UnacceptableResultError` reason. Only checks: the candidate's own value is
+ * returned, without the schema's transforms, and its type is not narrowed
+ * (see `parseSchema` for both).
+ */
+export function acceptSchema<S extends StandardSchemaV1>(schema: S): (value: unknown) => MaybePromise<AcceptVerdict> {
+  return (value) => {
+    const result = schema["~standard"].validate(value);
+    const verdict = (r: StandardSchemaResult<unknown>): AcceptVerdict =>
+      r.issues ? { ok: false, reason: r.issues.map(describeIssue).join("; ") } : true;
+    return isPromiseLike(result) ? Promise.resolve(result).then(verdict) : verdict(result);
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Fetch responses
+// ─────────────────────────────────────────────────────────────
+
+/** The parts of a fetch `Response` the body checks use */
+interface ResponseLike {
+  readonly headers: { get(name: string): string | null };
+  readonly body?: { cancel(reason?: unknown): Promise<void> } | null;
+  readonly bodyUsed?: boolean;
+  clone(): { text(): Promise<string> };
+}
+
+/** Buffered text per response, so several checks on one response read its body once */
+const bodies = new WeakMap<object, Promise<string>>();
+
+function readText(res: ResponseLike): Promise<string> {
+  let text = bodies.get(res);
+  if (!text) {
+    // Read a clone: the response itself stays unread for whoever wins.
+    text = res.clone().text();
+    bodies.set(res, text);
+  }
+  return text;
+}
+
+/**
+ * Free the connection of a value that will not be used, if it is a `Response`
+ * (or anything else with an unread body). The chain calls this for every
+ * unacceptable, timed-out or cancelled attempt value.
+ */
+export function discardBody(value: unknown): void {
+  const { body, bodyUsed } = (value ?? {}) as Partial<ResponseLike>;
+  if (bodyUsed === false && typeof body?.cancel === "function") body.cancel().catch(() => {});
+}
+
+/**
+ * Accept responses whose JSON body passes `predicate` (any valid JSON without one).
+ * The body is read from a clone, so the winning response can still be read
+ * (the chain cancels the body of rejected ones). Invalid JSON is unacceptable.
+ */
+export function acceptJson<J = any>(
+  predicate: (json: J, res: ResponseLike) => MaybePromise<AcceptVerdict> = () => true
+): (res: ResponseLike) => Promise<AcceptVerdict> {
+  return async (res) => {
+    let json: J;
+    try {
+      json = JSON.parse(await readText(res));
+    } catch (err) {
+      if (!(err instanceof SyntaxError)) throw err;
+      return { ok: false, reason: `invalid JSON: ${err.message}` };
+    }
+    return predicate(json, res);
+  };
+}
+
+/**
+ * Accept responses whose text body passes `predicate`. Like `acceptJson`, the
+ * body is read once from a clone.
+ */
+export function acceptText(
+  predicate: (text: string, res: ResponseLike) => MaybePromise<AcceptVerdict>
+): (res: ResponseLike) => Promise<AcceptVerdict> {
+  return async (res) => predicate(await readText(res), res);
+}
+
+/**
+ * Accept responses with one of these media types (`application/json`, `text/*`, ...),
+ * ignoring parameters such as `charset`.
+ */
+export function acceptContentType(...types: string[]): (res: ResponseLike) => AcceptVerdict {
+  const wanted = types.map((type) => type.trim().toLowerCase());
+  return (res) => {
+    const header = res.headers.get("content-type");
+    const type = header?.split(";")[0]!.trim().toLowerCase() ?? "";
+    const matches = wanted.some((w) => (w.endsWith("/*") ? type.startsWith(w.slice(0, -1)) : type === w));
+    return matches ? true : { ok: false, reason: header ? `content-type ${type}` : "no content-type" };
+  };
+}
+
+/** Thrown by `parseSchema` when a value does not pass the schema */
+export class SchemaValidationError extends Error {
+  readonly issues: ReadonlyArray<StandardSchemaIssue>;
+  constructor(issues: ReadonlyArray<StandardSchemaIssue>) {
+    super(issues.map(describeIssue).join("; "));
+    this.name = "SchemaValidationError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * A candidate `map` step that validates with a Standard Schema and resolves with
+ * its output (transforms applied), so the chain value is validated and typed in
+ * one step: `{ run, map: parseSchema(Answer) }`. Issues throw a
+ * `SchemaValidationError`, which makes the attempt unacceptable.
+ */
+export function parseSchema<S extends StandardSchemaV1>(schema: S): (raw: unknown) => MaybePromise<SchemaOutput<S>> {
+  return (raw) => {
+    const result = schema["~standard"].validate(raw);
+    const output = (r: StandardSchemaResult<unknown>): SchemaOutput<S> => {
+      if (r.issues) throw new SchemaValidationError(r.issues);
+      return r.value as SchemaOutput<S>;
+    };
+    return isPromiseLike(result) ? Promise.resolve(result).then(output) : output(result);
+  };
+}
@@ -0,0 +1,141 @@
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Open after this many failures in a row. Default 5. */
+  consecutiveFailures?: number;
+
+  /**
+   * Also open when the failure rate (0..1) over the last `windowSize` calls reaches this value.
+   * Only evaluated once `minimumCalls` have been recorded. Disabled by default.
+   */
+  failureRate?: number;
+  windowSize?: number;
+  minimumCalls?: number;
+
+  /** How long (ms) the circuit stays open before letting probes through. Default 30000. */
+  cooldownMs?: number;
+
+  /** Probe calls allowed while half-open; all must succeed to close the circuit. Default 1. */
+  halfOpenProbes?: number;
+
+  /** Injectable clock for tests. Default Date.now. */
+  now?: () => number;
+
+  onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+}
+
+export interface CircuitBreaker {
+  readonly state: CircuitState;
+  /** Reserve a call. Returns false when the circuit is open (or every half-open probe is in flight). */
+  tryAcquire(): boolean;
+  recordSuccess(): void;
+  recordFailure(): void;
+  /** Give back a reserved call without recording an outcome (aborted / cancelled attempts). */
+  release(): void;
+  reset(): void;
+}
+
+export class CircuitOpenError extends Error {
+  readonly candidate: string | undefined;
+  constructor(candidate?: string) {
+    super(candidate === undefined ? "Circuit open" : `Circuit open for "${candidate}"`);
+    this.name = "CircuitOpenError";
+    this.candidate = candidate;
+  }
+}
+
+/**
+ * Create a circuit breaker that can be shared across `fallback()` calls by
+ * attaching it to a candidate: `{ name, run, breaker }`. While open, the
+ * candidate is skipped without being called.
+ */
+export function createCircuitBreaker(options: CircuitBreakerOptions = {}): CircuitBreaker {
+  const consecutiveFailures = options.consecutiveFailures ?? 5;
+  const windowSize = options.windowSize ?? 20;
+  const minimumCalls = options.minimumCalls ?? windowSize;
+  const cooldownMs = options.cooldownMs ?? 30_000;
+  const halfOpenProbes = options.halfOpenProbes ?? 1;
+  const now = options.now ?? Date.now;
+
+  let state: CircuitState = "closed";
+  let openedAt = 0;
+  let failuresInARow = 0;
+  let window: boolean[] = [];
+  let probesInFlight = 0;
+  let probeSuccesses = 0;
+
+  function transition(to: CircuitState) {
+    if (to === state) return;
+    const previous = state;
+    state = to;
+    if (to === "open") openedAt = now();
+    if (to !== "closed") {
+      probesInFlight = 0;
+      probeSuccesses = 0;
+    } else {
+      failuresInARow = 0;
+      window = [];
+    }
+    options.onStateChange?.(to, previous);
+  }
+
+  function refresh() {
+    if (state === "open" && now() - openedAt >= cooldownMs) transition("half-open");
+  }
+
+  function shouldOpen(): boolean {
+    if (failuresInARow >= consecutiveFailures) return true;
+    if (options.failureRate === undefined || window.length < minimumCalls) return false;
+    const failed = window.filter((ok) => !ok).length;
+    return failed / window.length >= options.failureRate;
+  }
+
+  function record(ok: boolean) {
+    window.push(ok);
+    if (window.length > windowSize) window.shift();
+    failuresInARow = ok ? 0 : failuresInARow + 1;
+  }
+
+  return {
+    get state() {
+      refresh();
+      return state;
+    },
+
+    tryAcquire() {
+      refresh();
+      if (state === "closed") return true;
+      if (state === "open" || probesInFlight >= halfOpenProbes) return false;
+      probesInFlight++;
+      return true;
+    },
+
+    recordSuccess() {
+      if (state === "half-open") {
+        probesInFlight = Math.max(0, probesInFlight - 1);
+        if (++probeSuccesses >= halfOpenProbes) transition("closed");
+        return;
+      }
+      record(true);
+    },
+
+    recordFailure() {
+      if (state === "half-open") {
+        transition("open");
+        return;
+      }
+      record(false);
+      if (state === "closed" && shouldOpen()) transition("open");
+    },
+
+    release() {
+      if (state === "half-open") probesInFlight = Math.max(0, probesInFlight - 1);
+    },
+
+    reset() {
+      transition("closed");
+      failuresInARow = 0;
+      window = [];
+    }
+  };
+}
@@ -0,0 +1,105 @@
+export interface BulkheadOptions {
+  /** Attempts allowed to run at the same time. */
+  maxConcurrent: number;
+
+  /** Attempts allowed to wait for a free slot; beyond this they are rejected at once. Default 0. */
+  maxQueue?: number;
+
+  /** Longest wait (ms) in the queue before giving up. Default: no limit. */
+  queueTimeoutMs?: number;
+}
+
+export interface Bulkhead {
+  /** Attempts currently holding a slot */
+  readonly active: number;
+  /** Attempts waiting for a slot */
+  readonly queued: number;
+  /** Take a slot now if one is free. */
+  tryAcquire(): boolean;
+  /**
+   * Take a slot, queueing if allowed. Resolves false when the queue is full or the
+   * wait times out (capped by `timeoutMs`); rejects if `signal` aborts while waiting.
+   */
+  acquire(signal?: AbortSignal, timeoutMs?: number): Promise<boolean>;
+  /** Give a slot back; the next queued attempt takes it. */
+  release(): void;
+}
+
+export class BulkheadRejectedError extends Error {
+  readonly candidate: string | undefined;
+  constructor(candidate?: string) {
+    super(candidate === undefined ? "Bulkhead full" : `Bulkhead full for "${candidate}"`);
+    this.name = "BulkheadRejectedError";
+    this.candidate = candidate;
+  }
+}
+
+/**
+ * Create a concurrency limit that can be shared across `fallback()` calls by
+ * attaching it to a candidate: `{ name, run, bulkhead }`. When every slot is
+ * taken and the queue is full (or the wait times out), the candidate is not
+ * called and the chain moves on.
+ */
+export function createBulkhead(options: BulkheadOptions): Bulkhead {
+  const maxConcurrent = Math.max(1, options.maxConcurrent);
+  const maxQueue = options.maxQueue ?? 0;
+
+  let active = 0;
+  const queue: Array<(granted: boolean) => void> = [];
+
+  return {
+    get active() {
+      return active;
+    },
+
+    get queued() {
+      return queue.length;
+    },
+
+    tryAcquire() {
+      if (active >= maxConcurrent) return false;
+      active++;
+      return true;
+    },
+
+    acquire(signal, timeoutMs) {
+      if (signal?.aborted) return Promise.reject(signal.reason);
+      if (active < maxConcurrent) {
+        active++;
+        return Promise.resolve(true);
+      }
+      if (queue.length >= maxQueue) return Promise.resolve(false);
+
+      const waitMs = Math.min(options.queueTimeoutMs ?? Infinity, timeoutMs ?? Infinity);
+
+      return new Promise<boolean>((resolve, reject) => {
+        let id: any | undefined;
+        const leave = () => {
+          const i = queue.indexOf(grant);
+          if (i !== -1) queue.splice(i, 1);
+          clearTimeout(id);
+          signal?.removeEventListener("abort", onAbort);
+        };
+        const grant = (granted: boolean) => {
+          leave();
+          resolve(granted);
+        };
+        const onAbort = () => {
+          leave();
+          reject(signal!.reason);
+        };
+
+        queue.push(grant);
+        signal?.addEventListener("abort", onAbort, { once: true });
+        if (Number.isFinite(waitMs)) id = setTimeout(() => grant(false), Math.max(0, waitMs));
+      });
+    },
+
+    release() {
+      const next = queue[0];
+      // Hand the slot straight to the next waiter so newcomers can't jump the queue.
+      if (next) next(true);
+      else active = Math.max(0, active - 1);
+    }
+  };
+}
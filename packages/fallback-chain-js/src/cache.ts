@@ -0,0 +1,191 @@
+import type { FallbackChain, FallbackOptions, FallbackReport, MaybePromise } from "./index.js";
+
+/** What a cache store holds per key */
+export interface CacheEntry<T> {
+  value: T;
+  /** When the value was produced (ms since epoch) */
+  storedAt: number;
+  /** The candidate that produced the value */
+  winner: FallbackReport<T>["winner"];
+}
+
+/**
+ * Minimal key/value store. Implement it over Firestore, KV, Redis, ... to share
+ * a cache between instances; `createMemoryStore()` is the built-in default.
+ */
+export interface CacheStore<T> {
+  get(key: string): MaybePromise<CacheEntry<T> | undefined>;
+  /** `retainMs` is how long the entry can still be served (fresh or stale); stores may expire it after that. */
+  set(key: string, entry: CacheEntry<T>, retainMs: number): MaybePromise<void>;
+  delete(key: string): MaybePromise<void>;
+}
+
+export interface MemoryStoreOptions {
+  /** Least recently used entries are evicted beyond this. Default 1000. */
+  maxEntries?: number;
+  /** Injectable clock for tests. Default Date.now. */
+  now?: () => number;
+}
+
+/** In-memory LRU store, scoped to the current process / isolate. */
+export function createMemoryStore<T>(options: MemoryStoreOptions = {}): CacheStore<T> {
+  const maxEntries = options.maxEntries ?? 1000;
+  const now = options.now ?? Date.now;
+  const entries = new Map<string, { entry: CacheEntry<T>; expiresAt: number }>();
+
+  return {
+    get(key) {
+      const slot = entries.get(key);
+      if (!slot) return undefined;
+      entries.delete(key);
+      if (now() >= slot.expiresAt) return undefined;
+      entries.set(key, slot); // most recently used goes last
+      return slot.entry;
+    },
+
+    set(key, entry, retainMs) {
+      entries.delete(key);
+      entries.set(key, { entry, expiresAt: now() + retainMs });
+      while (entries.size > maxEntries) entries.delete(entries.keys().next().value!);
+    },
+
+    delete(key) {
+      entries.delete(key);
+    }
+  };
+}
+
+export type CacheStatus = "miss" | "hit" | "stale";
+
+export interface CachedReport<T> extends FallbackReport<T> {
+  /** "hit"/"stale": served from the cache, `attempts` is empty and `winner` is the candidate that produced it */
+  cache: CacheStatus;
+  /** Age (ms) of the served value; 0 on a miss */
+  ageMs: number;
+  /** Set when a stale value was served because every candidate failed */
+  error?: unknown;
+}
+
+export interface CachedChain<I, T> extends FallbackChain<I, T> {
+  runWithReport(input: I, overrides?: FallbackOptions<T>): Promise<CachedReport<T>>;
+  /** Drop the cached value for an input. */
+  invalidate(input: I): Promise<void>;
+}
+
+export interface CacheOptions<I, T> {
+  /** Cache key for a chain input. */
+  key: (input: I) => string;
+
+  /** How long (ms) a value is fresh and served without running the chain. */
+  ttlMs: number;
+
+  /** After `ttlMs`, keep serving the value for this long (ms) while one background run refreshes it. Default 0. */
+  staleWhileRevalidateMs?: number;
+
+  /** After `ttlMs`, serve the value for this long (ms) when every candidate fails. Default 0. */
+  staleIfErrorMs?: number;
+
+  /** Default: `createMemoryStore()`. */
+  store?: CacheStore<T>;
+
+  /** Injectable clock for tests. Default Date.now. */
+  now?: () => number;
+
+  /** Store failures and failed background refreshes never fail a call; they are passed here. */
+  onError?: (error: unknown, during: "get" | "set" | "delete" | "revalidate") => void;
+}
+
+/**
+ * Put a cache in front of a chain. Fresh values skip the chain entirely; with
+ * `staleWhileRevalidateMs` a recently expired value is served while the chain
+ * refreshes it in the background, and with `staleIfErrorMs` the last good value
+ * is served (flagged `cache: "stale"` in the report) when every candidate fails.
+ */
+export function withCache<I, T>(chain: FallbackChain<I, T>, options: CacheOptions<I, T>): CachedChain<I, T> {
+  const store = options.store ?? createMemoryStore<T>();
+  const now = options.now ?? Date.now;
+  const swrMs = options.staleWhileRevalidateMs ?? 0;
+  const sieMs = options.staleIfErrorMs ?? 0;
+  const retainMs = options.ttlMs + Math.max(swrMs, sieMs);
+  const refreshing = new Map<string, Promise<unknown>>();
+
+  function report(entry: CacheEntry<T>, cache: CacheStatus, error?: unknown): CachedReport<T> {
+    const out: CachedReport<T> = {
+      value: entry.value,
+      winner: entry.winner,
+      attempts: [],
+      totalDurationMs: 0,
+      totalCost: 0,
+      cache,
+      ageMs: Math.max(0, now() - entry.storedAt)
+    };
+    if (error !== undefined) out.error = error;
+    return out;
+  }
+
+  async function read(key: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      return await store.get(key);
+    } catch (err) {
+      options.onError?.(err, "get");
+      return undefined;
+    }
+  }
+
+  async function refresh(key: string, input: I, overrides: FallbackOptions<T>): Promise<FallbackReport<T>> {
+    const live = await chain.runWithReport(input, overrides);
+    const entry: CacheEntry<T> = { value: live.value, storedAt: now(), winner: live.winner };
+    try {
+      await store.set(key, entry, retainMs);
+    } catch (err) {
+      options.onError?.(err, "set");
+    }
+    return live;
+  }
+
+  function revalidate(key: string, input: I, overrides: FallbackOptions<T>): void {
+    if (refreshing.has(key)) return;
+    // The caller already has its answer; its signal must not cancel the refresh.
+    const { signal: _signal, ...background } = overrides;
+    const run = refresh(key, input, background)
+      .catch((err) => options.onError?.(err, "revalidate"))
+      // Nobody awaits the refresh: it must not surface as an unhandled rejection, even if `onError` throws.
+      .catch(() => {})
+      .finally(() => refreshing.delete(key));
+    refreshing.set(key, run);
+  }
+
+  async function runWithReport(input: I, overrides: FallbackOptions<T> = {}): Promise<CachedReport<T>> {
+    const key = options.key(input);
+    const cached = await read(key);
+    const age = cached ? now() - cached.storedAt : Infinity;
+
+    if (cached && age < options.ttlMs) return report(cached, "hit");
+    if (cached && age < options.ttlMs + swrMs) {
+      revalidate(key, input, overrides);
+      return report(cached, "stale");
+    }
+
+    try {
+      return { ...(await refresh(key, input, overrides)), cache: "miss", ageMs: 0 };
+    } catch (err) {
+      if (cached && age < options.ttlMs + sieMs && !overrides.signal?.aborted) {
+        return report(cached, "stale", err);
+      }
+      throw err;
+    }
+  }
+
+  return {
+    ...chain,
+    runWithReport,
+    run: async (input, overrides) => (await runWithReport(input, overrides)).value,
+    invalidate: async (input) => {
+      try {
+        await store.delete(options.key(input));
+      } catch (err) {
+        options.onError?.(err, "delete");
+      }
+    }
+  };
+}
@@ -0,0 +1,212 @@
+import { readVerdict, thenVerdict, type AcceptCheck, type Uninferred } from "./accept.js";
+
+/** A `retryable` predicate: should the chain keep going after this error? */
+export type ErrorPredicate = (error: unknown) => boolean;
+
+// ─────────────────────────────────────────────────────────────
+// Reading error shapes
+// ─────────────────────────────────────────────────────────────
+
+/** `value[key]` for objects and functions, undefined for anything else. */
+export function field(value: unknown, key: string): unknown {
+  return value !== null && (typeof value === "object" || typeof value === "function")
+    ? (value as Record<string, unknown>)[key]
+    : undefined;
+}
+
+/**
+ * HTTP status of a thrown `Response`, an error with `status` / `statusCode`, or an
+ * error wrapping a response (`error.response.status`, as thrown by axios, ky, ...).
+ */
+export function errorStatus(error: unknown): number | undefined {
+  const response = field(error, "response");
+  for (const status of [field(error, "status"), field(error, "statusCode"), field(response, "status")]) {
+    if (typeof status === "number") return status;
+  }
+  return undefined;
+}
+
+/**
+ * Machine-readable code of an error: `error.code`, `error.cause.code` (Node's
+ * fetch) or the provider error body (`error.error.code` / `error.error.type`,
+ * one level deeper for SDKs that keep the whole body there). The envelope
+ * type `"error"` (`{ type: "error", error: { type: "rate_limit_error" } }`)
+ * is not a code.
+ */
+export function errorCode(error: unknown): string | undefined {
+  const body = field(error, "error");
+  for (const code of [
+    field(error, "code"),
+    field(field(error, "cause"), "code"),
+    field(body, "code"),
+    field(field(body, "error"), "type"),
+    field(body, "type"),
+    field(error, "type")
+  ]) {
+    if (typeof code === "string" && code !== "" && code !== "error") return code;
+    if (typeof code === "number") return String(code);
+  }
+  return undefined;
+}
+
+function header(error: unknown, name: string): string | undefined {
+  for (const headers of [field(error, "headers"), field(field(error, "response"), "headers")]) {
+    if (!headers || typeof headers !== "object") continue;
+    const get = field(headers, "get");
+    const value =
+      typeof get === "function"
+        ? get.call(headers, name)
+        : Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1];
+    if (typeof value === "string") return value;
+  }
+  return undefined;
+}
+
+/**
+ * How long (ms) the server asked to wait before trying again: a `retryAfterMs`
+ * property, or the `retry-after-ms` / `Retry-After` header (seconds or an HTTP
+ * date) of the error or its response. Undefined when there is no such hint.
+ */
+export function retryAfterMs(error: unknown, now: number = Date.now()): number | undefined {
+  const own = field(error, "retryAfterMs");
+  if (typeof own === "number" && own >= 0) return own;
+
+  const ms = Number(header(error, "retry-after-ms"));
+  if (header(error, "retry-after-ms") !== undefined && Number.isFinite(ms) && ms >= 0) return ms;
+
+  const value = header(error, "retry-after")?.trim();
+  if (value === undefined || value === "") return undefined;
+  if (/^\d+(\.\d+)?$/.test(value)) return Number(value) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// ─────────────────────────────────────────────────────────────
+// Predicates
+// ─────────────────────────────────────────────────────────────
+
+/** True for errors with one of these HTTP statuses. */
+export const retryOnStatus = (...codes: number[]): ErrorPredicate =>
+  (error) => {
+    const status = errorStatus(error);
+    return status !== undefined && codes.includes(status);
+  };
+
+/** False for errors with one of these HTTP statuses, true for everything else. */
+export const neverOnStatus = (...codes: number[]): ErrorPredicate =>
+  (error) => {
+    const status = errorStatus(error);
+    return status === undefined || !codes.includes(status);
+  };
+
+/** True for errors whose `errorCode()` is one of these codes. */
+export const retryOnCode = (...codes: string[]): ErrorPredicate =>
+  (error) => {
+    const code = errorCode(error);
+    return code !== undefined && codes.includes(code);
+  };
+
+const NETWORK_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+  "EAI_AGAIN",
+  "EPIPE"
+];
+
+/**
+ * True for connection-level failures: socket error codes, undici errors, and the
+ * `TypeError` fetch throws when no response arrived ("fetch failed", "Failed to fetch").
+ */
+export const retryOnNetworkError: ErrorPredicate = (error) => {
+  const code = errorCode(error);
+  if (code !== undefined && (NETWORK_CODES.includes(code) || code.startsWith("UND_ERR_"))) return true;
+  return (
+    error instanceof TypeError &&
+    /fetch failed|failed to fetch|network ?error|load failed/i.test(error.message)
+  );
+};
+
+/** True for attempts that ran out of time (`TimeoutError`, including `timeoutMs`). */
+export const retryOnTimeout: ErrorPredicate = (error) => field(error, "name") === "TimeoutError";
+
+function message(error: unknown): string {
+  const value = field(error, "message");
+  return typeof value === "string" ? value : "";
+}
+
+/** Rate limited or overloaded: HTTP 429/529, or a rate-limit / quota error code. */
+export const isRateLimitError: ErrorPredicate = (error) => {
+  const status = errorStatus(error);
+  if (status === 429 || status === 529) return true;
+  return /rate.?limit|quota|resource_exhausted|overloaded/i.test(errorCode(error) ?? "");
+};
+
+/** The prompt does not fit the model's context window. */
+export const isContextLengthError: ErrorPredicate = (error) =>
+  /context_length|context.?window|too many tokens|prompt is too long|maximum context length/i.test(
+    `${errorCode(error) ?? ""} ${message(error)}`
+  );
+
+/** Missing, invalid or insufficient credentials: HTTP 401/403, or an auth error code. */
+export const isAuthError: ErrorPredicate = (error) => {
+  const status = errorStatus(error);
+  if (status === 401 || status === 403) return true;
+  return /invalid_api_key|authentication|permission|unauthenticated|unauthorized/i.test(errorCode(error) ?? "");
+};
+
+// ─────────────────────────────────────────────────────────────
+// Combinators (work for `retryable` and `accept` alike)
+// ─────────────────────────────────────────────────────────────
+
+/** A predicate over a value (or error) and the extra arguments of the option it is used for */
+type Predicate<V, A extends unknown[]> = (value: V, ...args: A) => boolean;
+
+// The value and argument types come from where the result is used (`accept`, `retryable`, ...),
+// so predicates over different shapes (`acceptOk`, `acceptStatus(304)`) combine without annotations.
+
+/** True when every predicate is. */
+export function and<V, A extends unknown[]>(...predicates: Array<Predicate<Uninferred<V>, Uninferred<A>>>): Predicate<V, A> {
+  return (value, ...args) => predicates.every((p) => p(value, ...args));
+}
+
+/** True when any predicate is. */
+export function or<V, A extends unknown[]>(...predicates: Array<Predicate<Uninferred<V>, Uninferred<A>>>): Predicate<V, A> {
+  return (value, ...args) => predicates.some((p) => p(value, ...args));
+}
+
+/** The opposite of `predicate`; also inverts (async) `accept` checks and their verdicts. */
+export function not<V, A extends unknown[]>(predicate: Predicate<Uninferred<V>, Uninferred<A>>): Predicate<V, A>;
+export function not<V, A extends unknown[]>(check: AcceptCheck<Uninferred<V>, Uninferred<A>>): AcceptCheck<V, A>;
+export function not<V, A extends unknown[]>(check: AcceptCheck<V, A>): AcceptCheck<V, A> {
+  return (value, ...args) => thenVerdict(check(value, ...args), (verdict) => !readVerdict(verdict).ok);
+}
+
+// ─────────────────────────────────────────────────────────────
+// Presets
+// ─────────────────────────────────────────────────────────────
+
+/** 4xx statuses that are worth another try (timeouts, too early, rate limits) */
+const TRANSIENT_CLIENT_STATUS = [408, 425, 429];
+
+/**
+ * For fetch / HTTP clients: keep going after network errors, timeouts, 5xx and
+ * 408/425/429; stop on other 4xx, which another try would only repeat. Errors
+ * without a status (parse errors, ...) keep going, like the default.
+ */
+export const retryableHttp: ErrorPredicate = (error) => {
+  const status = errorStatus(error);
+  return status === undefined || status >= 500 || TRANSIENT_CLIENT_STATUS.includes(status);
+};
+
+/**
+ * For LLM provider SDKs (OpenAI, Anthropic, Google, ... error shapes): like
+ * `retryableHttp`, but rate limit, context length and auth errors also fall
+ * over, since another provider has its own quota, context window and keys.
+ * Other invalid requests stop the chain.
+ */
+export const retryableLlm: ErrorPredicate = or(retryableHttp, isRateLimitError, isContextLengthError, isAuthError);
@@ -1,15 +1,273 @@
+import { CircuitOpenError, type CircuitBreaker } from "./breaker.js";
+import { BulkheadRejectedError, type Bulkhead } from "./bulkhead.js";
+import { RateLimitedError, type RateLimiter } from "./limiter.js";
+import type { CandidateDescriptor, CandidateStrategy } from "./strategy.js";
+import { retryAfterMs } from "./classify.js";
+import { discardBody, readVerdict, type AcceptVerdict } from "./accept.js";
+import { serializeAttempt, serializeError, type SerializedError } from "./serialize.js";
+
+export {
+  createCircuitBreaker,
+  CircuitOpenError,
+  type CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitState
+} from "./breaker.js";
+
+export {
+  BulkheadRejectedError,
+  createBulkhead,
+  type Bulkhead,
+  type BulkheadOptions
+} from "./bulkhead.js";
+
+export {
+  createRateLimiter,
+  RateLimitedError,
+  type RateLimiter,
+  type RateLimiterOptions
+} from "./limiter.js";
+
+export {
+  createHealthStrategy,
+  createRoundRobinStrategy,
+  createShuffleStrategy,
+  createWeightedStrategy,
+  seededRandom,
+  type CandidateDescriptor,
+  type CandidateHealth,
+  type CandidateStrategy,
+  type HealthStrategy,
+  type HealthStrategyOptions,
+  type RandomOptions,
+  type ShuffleStrategyOptions
+} from "./strategy.js";
+
+export {
+  serializeAttempt,
+  serializeError,
+  type SerializeOptions,
+  type SerializedAttempt,
+  type SerializedError
+} from "./serialize.js";
+
+export {
+  createMetricsCollector,
+  formatPrometheus,
+  type CandidateMetrics,
+  type ChainMetrics,
+  type LatencyHistogram,
+  type MetricsCollector,
+  type MetricsCollectorOptions,
+  type MetricsSnapshot
+} from "./metrics.js";
+
+export {
+  createMemoryStore,
+  withCache,
+  type CacheEntry,
+  type CacheOptions,
+  type CacheStatus,
+  type CacheStore,
+  type CachedChain,
+  type CachedReport,
+  type MemoryStoreOptions
+} from "./cache.js";
+
+export {
+  and,
+  errorCode,
+  errorStatus,
+  isAuthError,
+  isContextLengthError,
+  isRateLimitError,
+  neverOnStatus,
+  not,
+  or,
+  retryAfterMs,
+  retryableHttp,
+  retryableLlm,
+  retryOnCode,
+  retryOnNetworkError,
+  retryOnStatus,
+  retryOnTimeout,
+  type ErrorPredicate
+} from "./classify.js";
+
+export {
+  acceptContentType,
+  acceptJson,
+  acceptSchema,
+  acceptText,
+  allOf,
+  anyOf,
+  parseSchema,
+  SchemaValidationError,
+  type AcceptCheck,
+  type AcceptVerdict,
+  type SchemaOutput,
+  type StandardSchemaIssue,
+  type StandardSchemaResult,
+  type StandardSchemaV1
+} from "./accept.js";
+
 export type MaybePromise<T> = T | PromiseLike<T>;
 
-export interface AttemptContext {
+export interface AttemptContext<I = void> {
   attempt: number;
+  /** 0 for the first try of a candidate, then 1, 2, ... for each retry */
+  retry: number;
+  /** Per-call input passed to `chain.run(input)`; undefined for plain `fallback()` */
+  input: I;
+  /** Time left (ms) before `deadlineMs` expires; Infinity when there is no deadline */
+  remainingMs: number;
   signal: AbortSignal;
   errors: readonly unknown[];
 }
 
-export type CandidateFn<T> = (ctx: AttemptContext) => MaybePromise<T>;
-export type Candidate<T> =
-  | CandidateFn<T>
-  | { name?: string; run: CandidateFn<T> };
+export type CandidateFn<T, I = void> = (ctx: AttemptContext<I>) => MaybePromise<T>;
+
+/** Settings an object candidate can carry next to its `run` */
+export interface CandidateOptions {
+  name?: string;
+  retries?: number | RetryPolicy;
+  /** Shared across calls; an open circuit skips this candidate without calling it */
+  breaker?: CircuitBreaker;
+  /** Shared across calls; caps concurrent attempts, a saturated candidate is not called */
+  bulkhead?: Bulkhead;
+  /** Shared across calls; when its bucket is empty this candidate is skipped without calling it */
+  rateLimiter?: RateLimiter;
+  /** Group for chain strategies: lower tiers are tried first. Default 0. */
+  tier?: number;
+  /** Relative traffic share within a tier for weighted strategies. Default 1. */
+  weight?: number;
+  /** Cost of one call (e.g. USD or tokens), summed per call and checked against `maxCost`. Default 0. */
+  cost?: number;
+  /** Free-form labels for `select` and strategies (e.g. ["cheap", "long-context"]) */
+  tags?: readonly string[];
+  /** Arbitrary metadata for `select` and strategies (e.g. expected quality) */
+  meta?: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * A candidate whose raw output is converted by `map` (sync or async) before
+ * `accept` sees it. A throwing `map` makes the attempt "unacceptable".
+ * Written inline, `raw` is `unknown`: wrap the candidate in `mapped()` (or
+ * annotate `raw`) to type it from `run`.
+ */
+export interface MappedCandidate<T, I = void, R = unknown> extends CandidateOptions {
+  run: CandidateFn<R, I>;
+  // Method syntax: a `mapped()` candidate with a typed `raw` still fits `Candidate<T>`.
+  map(raw: R): MaybePromise<T>;
+}
+
+/**
+ * Declare a mapped candidate with `raw` typed from `run`'s result:
+ * `mapped({ run: () => openai.chat.completions.create(...), map: (r) => r.choices[0].message.content })`.
+ */
+export function mapped<R, T, I = void>(
+  candidate: CandidateOptions & { run: CandidateFn<R, I>; map: (raw: Awaited<R>) => MaybePromise<T> }
+): MappedCandidate<Awaited<T>, I, Awaited<R>> {
+  return candidate as MappedCandidate<Awaited<T>, I, Awaited<R>>;
+}
+
+export type Candidate<T, I = void> =
+  | CandidateFn<T, I>
+  | (CandidateOptions & { run: CandidateFn<T, I>; map?: undefined })
+  | MappedCandidate<T, I>;
+
+/** The value a candidate resolves with (after its `map`); infers `T` from a mixed candidate list */
+export type CandidateValue<C> = C extends { map: (raw: any) => infer T }
+  ? Awaited<T>
+  : C extends { run: (ctx: any) => infer T }
+    ? Awaited<T>
+    : C extends (ctx: any) => infer T
+      ? Awaited<T>
+      : never;
+
+export interface RetryPolicy {
+  /** Extra tries on the same candidate before falling through to the next one */
+  retries: number;
+  /** Delay (ms) before the first retry. Default 100. */
+  minDelayMs?: number;
+  /** Upper bound (ms) for a single delay. Default 5000. */
+  maxDelayMs?: number;
+  /** Exponential growth factor between retries. Default 2. */
+  factor?: number;
+  /** Randomize each delay between 50% and 100% of its nominal value. Default true. */
+  jitter?: boolean;
+  /**
+   * Wait at least as long as the error's `Retry-After` hint (see `retryAfterMs()`);
+   * if that is longer than `maxDelayMs`, fall through instead of retrying. Default false.
+   */
+  respectRetryAfter?: boolean;
+}
+
+export type AttemptOutcome =
+  | "success"
+  | "rejected"
+  | "unacceptable"
+  | "timeout"
+  | "aborted"
+  | "cancelled"
+  | "skipped"
+  | "saturated";
+
+export interface AttemptInfo<T> {
+  /** Position in this call's run order */
+  attempt: number;
+  /** Index in the declared candidate list (differs from `attempt` when a strategy reorders) */
+  index: number;
+  retry: number;
+  name?: string;
+  outcome: AttemptOutcome;
+  durationMs: number;
+  /** Set when another try of the same candidate is scheduled after this one */
+  retryDelayMs?: number;
+  /** Cost incurred by this attempt; set for attempts of candidates with a `cost` that were called */
+  cost?: number;
+  value?: T;
+  error?: unknown;
+}
+
+/** Passed to `onAttemptStart` right before a candidate is called */
+export interface AttemptStartInfo {
+  attempt: number;
+  index: number;
+  retry: number;
+  name?: string;
+  /** Time (ms) since the call started, i.e. how long this attempt waited */
+  elapsedMs: number;
+  /** Time left (ms) before `deadlineMs` expires; Infinity when there is no deadline */
+  remainingMs: number;
+}
+
+/** A candidate as identified in `onFallback` */
+export interface CandidateRef {
+  attempt: number;
+  index: number;
+  name?: string;
+}
+
+/** Why the chain moved on: the final outcome of the previous candidate */
+export interface FallbackReason {
+  outcome: AttemptOutcome;
+  error: unknown;
+}
+
+export interface StartInfo {
+  /** Per-call input (`chain.run(input)`); undefined for plain `fallback()` */
+  input: unknown;
+  /** Number of candidates this call may try */
+  candidates: number;
+}
+
+export interface FailureInfo<T> {
+  attempts: AttemptInfo<T>[];
+  totalDurationMs: number;
+}
+
+export type HookName = "onStart" | "onAttemptStart" | "onAttempt" | "onFallback" | "onSuccess" | "onFailure";
 
 export class TimeoutError extends Error {
   readonly timeoutMs: number;
@@ -18,47 +276,245 @@ export class TimeoutError extends Error {
     this.name = "TimeoutError";
     this.timeoutMs = timeoutMs;
   }
+
+  toJSON(): SerializedError & { timeoutMs: number } {
+    return { ...serializeError(this), timeoutMs: this.timeoutMs };
+  }
+}
+
+/** Recorded when `accept` rejects a resolved value */
+export class UnacceptableResultError extends Error {
+  /** The rejected value (left out of `toJSON()`) */
+  readonly value: unknown;
+  /** Why, when `accept` returned `{ ok: false, reason }` */
+  readonly reason: string | undefined;
+  constructor(value: unknown, reason?: string, cause?: unknown) {
+    super(reason === undefined ? "Unacceptable result" : `Unacceptable result: ${reason}`);
+    this.name = "UnacceptableResultError";
+    this.value = value;
+    this.reason = reason;
+    if (cause !== undefined) this.cause = cause;
+  }
+
+  toJSON(): SerializedError & { reason?: string } {
+    const json: SerializedError & { reason?: string } = serializeError(this);
+    if (this.reason !== undefined) json.reason = this.reason;
+    return json;
+  }
+}
+
+/** A nested error's own `toJSON()` when it has one (keeping e.g. `timeoutMs`), else `serializeError`. */
+function errorJSON(error: unknown): SerializedError {
+  const toJSON = error instanceof Error ? (error as { toJSON?: unknown }).toJSON : undefined;
+  return typeof toJSON === "function" ? toJSON.call(error) : serializeError(error);
 }
 
 export class FallbackError extends Error {
   readonly errors: readonly unknown[];
-  constructor(message: string, errors: readonly unknown[]) {
+  /** Every attempt of the failed call, as reported to `onAttempt` */
+  readonly attempts: readonly AttemptInfo<unknown>[];
+  constructor(message: string, errors: readonly unknown[], attempts: readonly AttemptInfo<unknown>[] = []) {
     super(message);
     this.name = "FallbackError";
     this.errors = errors;
-    // best-effort "cause" for runtimes that support it
-    (this as any).cause = errors[errors.length - 1];
+    this.attempts = attempts;
+    // The last error, for tools that follow `cause` chains
+    this.cause = errors[errors.length - 1];
+  }
+
+  toJSON() {
+    return {
+      ...serializeError(this),
+      errors: this.errors.map((e) => errorJSON(e)),
+      attempts: this.attempts.map((a) => serializeAttempt(a))
+    };
+  }
+}
+
+export class DeadlineExceededError extends FallbackError {
+  readonly deadlineMs: number;
+  constructor(deadlineMs: number, errors: readonly unknown[], attempts: readonly AttemptInfo<unknown>[] = []) {
+    super(`Deadline of ${deadlineMs}ms exceeded`, errors, attempts);
+    this.name = "DeadlineExceededError";
+    this.deadlineMs = deadlineMs;
+  }
+
+  override toJSON() {
+    return { ...super.toJSON(), deadlineMs: this.deadlineMs };
   }
 }
 
+/** Thrown when calling the next candidate would take the call's spend past `maxCost` */
+export class BudgetExceededError extends FallbackError {
+  readonly maxCost: number;
+  /** Cost already incurred by the call */
+  readonly spent: number;
+  constructor(maxCost: number, spent: number, errors: readonly unknown[], attempts: readonly AttemptInfo<unknown>[] = []) {
+    super(`Budget of ${maxCost} exceeded (spent ${spent})`, errors, attempts);
+    this.name = "BudgetExceededError";
+    this.maxCost = maxCost;
+    this.spent = spent;
+  }
+
+  override toJSON() {
+    return { ...super.toJSON(), maxCost: this.maxCost, spent: this.spent };
+  }
+}
+
+/** `consensus()` ran out of candidates before `quorum` of them agreed */
+export class ConsensusError extends FallbackError {
+  readonly quorum: number;
+  /** Values returned by candidates, grouped by agreement, largest group first (left out of `toJSON()`) */
+  readonly groups: readonly (readonly unknown[])[];
+  constructor(
+    quorum: number,
+    groups: readonly (readonly unknown[])[],
+    errors: readonly unknown[],
+    attempts: readonly AttemptInfo<unknown>[] = []
+  ) {
+    super(`No ${quorum} candidates agreed (largest group: ${groups[0]?.length ?? 0})`, errors, attempts);
+    this.name = "ConsensusError";
+    this.quorum = quorum;
+    this.groups = groups;
+  }
+
+  override toJSON() {
+    return { ...super.toJSON(), quorum: this.quorum, groupSizes: this.groups.map((g) => g.length) };
+  }
+}
+
+export interface FallbackReport<T> {
+  value: T;
+  winner: { name?: string; attempt: number; index: number; retry: number };
+  /** Every attempt in the order it was reported, including failed tries before the winner */
+  attempts: AttemptInfo<T>[];
+  totalDurationMs: number;
+  /** Sum of the `cost` of every candidate call made */
+  totalCost: number;
+}
+
 export interface FallbackOptions<T> {
   /** Abort the whole chain (recommended to pass fetch/LLM signals through) */
   signal?: AbortSignal;
 
+  /**
+   * Time budget (ms) for the whole call. Each attempt's timeout is capped to what is left,
+   * retries that would outlive it are skipped, and `DeadlineExceededError` is thrown when it runs out.
+   */
+  deadlineMs?: number;
+
   /** Per-attempt timeout (ms). If a candidate ignores AbortSignal, we still enforce timeout via Promise.race. */
-  timeoutMs?: number | ((ctx: { attempt: number }) => number | undefined);
+  timeoutMs?: number | ((ctx: { attempt: number; retry: number }) => number | undefined);
 
   /**
-   * Decide whether a resolved value is acceptable.
-   * Return true to accept, false to fallback to the next candidate.
+   * Decide whether a resolved value is acceptable (sync or async).
+   * Return true to accept, false or `{ ok: false, reason }` to fallback to the next candidate.
    */
-  accept?: (value: T, ctx: { attempt: number }) => boolean;
+  accept?: (value: T, ctx: { attempt: number; retry: number }) => MaybePromise<AcceptVerdict>;
 
   /**
    * Decide whether an error should trigger fallback.
-   * Return true to continue to the next candidate, false to stop and throw immediately.
+   * Return true to retry / continue to the next candidate, false to stop and throw immediately.
+   */
+  retryable?: (error: unknown, ctx: { attempt: number; retry: number }) => boolean;
+
+  /**
+   * Stop (with `BudgetExceededError`) instead of calling a candidate whose `cost`
+   * would take the call's total past this.
+   */
+  maxCost?: number;
+
+  /**
+   * Filter / reorder candidates for this call. Receives them in run order (after any
+   * chain strategy) and returns the declared indices to try, in order.
    */
-  retryable?: (error: unknown, ctx: { attempt: number }) => boolean;
+  select?: (candidates: readonly CandidateDescriptor[], input: unknown) => readonly number[];
+
+  /** Run extra candidates in the background and compare their values with the live one. */
+  shadow?: ShadowOptions<T>;
+
+  /**
+   * Retry each candidate before falling through (exponential backoff + jitter).
+   * Candidates can override this with their own `retries`. Default 0.
+   */
+  retries?: number | RetryPolicy;
 
   /** Lightweight observability hook (no logging deps). */
-  onAttempt?: (info: {
-    attempt: number;
-    name?: string;
-    outcome: "success" | "rejected" | "unacceptable" | "timeout" | "aborted";
-    durationMs: number;
-    value?: T;
-    error?: unknown;
-  }) => void;
+  onAttempt?: (info: AttemptInfo<T>) => void;
+
+  /** The call is starting. */
+  onStart?: (info: StartInfo) => void;
+
+  /** A candidate is about to be called (not fired for skipped candidates). */
+  onAttemptStart?: (info: AttemptStartInfo) => void;
+
+  /** The chain gave up on `from` and is moving on to `to`. */
+  onFallback?: (from: CandidateRef, to: CandidateRef, reason: FallbackReason) => void;
+
+  /** The call resolved; receives the same report as `fallbackWithReport()`. */
+  onSuccess?: (report: FallbackReport<T>) => void;
+
+  /** The call rejected with `error`. */
+  onFailure?: (error: unknown, info: FailureInfo<T>) => void;
+
+  /**
+   * Hooks never break a call: anything they throw is caught and passed here.
+   * Default: ignored.
+   */
+  onHookError?: (error: unknown, hook: HookName) => void;
+}
+
+export interface HedgeOptions<T> extends FallbackOptions<T> {
+  /**
+   * Delay (ms) before starting the next candidate while earlier ones keep running.
+   * A failed attempt starts the next candidate immediately.
+   */
+  hedgeDelayMs: number | ((ctx: { attempt: number }) => number);
+}
+
+export interface ShadowInfo {
+  /** Position in `shadow.candidates` */
+  index: number;
+  name?: string;
+  /** How long the shadow took (ms) */
+  durationMs: number;
+}
+
+export interface ShadowOptions<T> {
+  /** Candidates that receive the call's input but whose values never reach the caller. */
+  candidates: readonly Candidate<T, any>[];
+
+  /** Budget (ms) for each shadow; its signal is aborted when it elapses. */
+  timeoutMs: number;
+
+  /** Share of calls (0..1) that also run the shadows. Default 1. */
+  sampleRate?: number;
+
+  /** Called with the live value and a shadow's value once both are available. */
+  compare: (live: T, shadow: T, info: ShadowInfo) => void;
+
+  /** A shadow failed, timed out or was unacceptable, or `compare` threw. */
+  onError?: (error: unknown, info: ShadowInfo) => void;
+
+  /** Random source for sampling. Default Math.random. */
+  random?: () => number;
+}
+
+export interface ConsensusOptions<T> extends FallbackOptions<T> {
+  /** Number of candidates that must return agreeing values. */
+  quorum: number;
+
+  /**
+   * Candidates started at once. More are started whenever the attempts still
+   * running could no longer reach quorum on their own. Default: `quorum`.
+   */
+  concurrency?: number;
+
+  /**
+   * Whether two values agree (equality or similarity). A value joins the first
+   * group whose first value it agrees with. Default `Object.is`.
+   */
+  equals?: (a: T, b: T) => boolean;
 }
 
 function isAbortLike(err: unknown): boolean {
@@ -70,20 +526,76 @@ function isAbortLike(err: unknown): boolean {
   );
 }
 
-function normalizeCandidate<T>(c: Candidate<T>): { name?: string; run: CandidateFn<T> } {
-  if (typeof c === "function") return { run: c };
-  if (c.name === undefined) return { run: c.run };
-  return { name: c.name, run: c.run };
+interface NormalizedCandidate<T, I> {
+  index: number;
+  name?: string;
+  /** Resolves with `T` itself, or with the raw value `map` turns into one */
+  run: CandidateFn<unknown, I>;
+  map?: (raw: unknown) => MaybePromise<T>;
+  retries?: number | RetryPolicy;
+  breaker?: CircuitBreaker;
+  bulkhead?: Bulkhead;
+  rateLimiter?: RateLimiter;
+  cost?: number;
+}
+
+function normalizeCandidate<T, I>(c: Candidate<T, I>, index: number): NormalizedCandidate<T, I> {
+  if (typeof c === "function") return { index, run: c };
+  const out: NormalizedCandidate<T, I> = { index, run: c.run };
+  if (c.name !== undefined) out.name = c.name;
+  if (c.retries !== undefined) out.retries = c.retries;
+  if (c.breaker !== undefined) out.breaker = c.breaker;
+  if (c.bulkhead !== undefined) out.bulkhead = c.bulkhead;
+  if (c.rateLimiter !== undefined) out.rateLimiter = c.rateLimiter;
+  if (c.cost !== undefined) out.cost = c.cost;
+  if (c.map !== undefined) out.map = c.map;
+  return out;
+}
+
+function describeCandidate<T, I>(c: Candidate<T, I>, index: number): CandidateDescriptor {
+  if (typeof c === "function") return { index, tier: 0, weight: 1, cost: 0, tags: [], meta: {} };
+  const descriptor: CandidateDescriptor = {
+    index,
+    tier: c.tier ?? 0,
+    weight: c.weight ?? 1,
+    cost: c.cost ?? 0,
+    tags: c.tags ?? [],
+    meta: c.meta ?? {}
+  };
+  if (c.name !== undefined) descriptor.name = c.name;
+  return descriptor;
 }
 
 function getTimeoutMs<T>(
   timeoutMs: FallbackOptions<T>["timeoutMs"],
-  attempt: number
+  attempt: number,
+  retry: number
 ): number | undefined {
-  if (typeof timeoutMs === "function") return timeoutMs({ attempt });
+  if (typeof timeoutMs === "function") return timeoutMs({ attempt, retry });
   return timeoutMs;
 }
 
+function resolveRetryPolicy(retries: number | RetryPolicy | undefined): Required<RetryPolicy> {
+  const policy = typeof retries === "number" ? { retries } : retries ?? { retries: 0 };
+  return {
+    retries: Math.max(0, Math.floor(policy.retries)),
+    minDelayMs: policy.minDelayMs ?? 100,
+    maxDelayMs: policy.maxDelayMs ?? 5_000,
+    factor: policy.factor ?? 2,
+    jitter: policy.jitter ?? true,
+    respectRetryAfter: policy.respectRetryAfter ?? false
+  };
+}
+
+/** Backoff before the next retry, or undefined if the error asks for a longer wait than the policy allows. */
+function getRetryDelayMs(policy: Required<RetryPolicy>, retry: number, error: unknown): number | undefined {
+  const nominal = Math.min(policy.maxDelayMs, policy.minDelayMs * policy.factor ** retry);
+  const backoff = Math.round(policy.jitter ? nominal / 2 + (Math.random() * nominal) / 2 : nominal);
+  const hint = policy.respectRetryAfter ? retryAfterMs(error) : undefined;
+  if (hint === undefined) return backoff;
+  return hint > policy.maxDelayMs ? undefined : Math.max(backoff, Math.ceil(hint));
+}
+
 // ─────────────────────────────────────────────────────────────
 // Accept Helpers
 // ─────────────────────────────────────────────────────────────
@@ -101,124 +613,1431 @@ export const acceptTruthy = <T>(v: T) => Boolean(v);
 /** Accept if value is not null/undefined */
 export const acceptDefined = <T>(v: T) => v !== null && v !== undefined;
 
+
 // ─────────────────────────────────────────────────────────────
-// Core fallback function
+// Attempt execution (shared by every mode)
 // ─────────────────────────────────────────────────────────────
 
-export async function fallback<T>(
-  candidates: readonly Candidate<T>[],
-  options: FallbackOptions<T> = {}
-): Promise<T> {
-  if (!Array.isArray(candidates) || candidates.length === 0) {
-    throw new TypeError("fallback(candidates): candidates must be a non-empty array");
+type AttemptResult<T> =
+  | { outcome: "success"; value: T }
+  | { outcome: "unacceptable"; value: T; error: unknown }
+  | { outcome: "rejected" | "timeout" | "aborted" | "skipped" | "saturated"; error: unknown };
+
+interface AttemptMeta {
+  attempt: number;
+  index: number;
+  retry: number;
+  name?: string;
+  cost?: number;
+  started: number;
+}
+
+/** State of one fallback()/hedge()/race()/chain.run() call */
+interface CallState<I> {
+  input: I;
+  started: number;
+  /** Everything reported to `onAttempt`, for reports and `FallbackError.attempts` */
+  attempts: AttemptInfo<any>[];
+  /** Every failure so far, exposed to candidates as `AttemptContext.errors` */
+  errors: unknown[];
+  /** Absolute time (ms) by which the call must settle */
+  deadline: number | undefined;
+  /** Set when a deadline-capped timeout fired (clocks may be coarse, e.g. in Workers) */
+  expired: boolean;
+  /** Sum of the cost of every candidate call made so far */
+  spent: number;
+}
+
+function createCallState<T, I>(options: FallbackOptions<T>, input: I): CallState<I> {
+  const { deadlineMs } = options;
+  const deadline =
+    typeof deadlineMs === "number" && Number.isFinite(deadlineMs) ? Date.now() + Math.max(0, deadlineMs) : undefined;
+  return { input, started: Date.now(), attempts: [], errors: [], deadline, expired: false, spent: 0 };
+}
+
+function remainingMs(call: CallState<unknown>): number {
+  if (call.deadline === undefined) return Infinity;
+  return call.expired ? 0 : Math.max(0, call.deadline - Date.now());
+}
+
+/** A single try of a candidate */
+interface RunningAttempt<T> extends AttemptMeta {
+  controller: AbortController;
+  result: Promise<AttemptResult<T>>;
+}
+
+/** A candidate across all of its tries; `stop` means the chain must not continue */
+interface CandidateRun<T> {
+  controller: AbortController;
+  /** Set by concurrent drivers before aborting a loser */
+  cancelled: boolean;
+  current: RunningAttempt<T> | undefined;
+  result: Promise<{ result: AttemptResult<T>; stop: boolean; failures: unknown[] }>;
+}
+
+/** Call a user hook; whatever it throws goes to `onHookError` instead of the chain. */
+function callHook<T, K extends HookName>(
+  options: FallbackOptions<T>,
+  hook: K,
+  ...args: Parameters<NonNullable<FallbackOptions<T>[K]>>
+): void {
+  const fn = options[hook] as ((...args: unknown[]) => void) | undefined;
+  if (!fn) return;
+  try {
+    fn(...args);
+  } catch (err) {
+    try {
+      options.onHookError?.(err, hook);
+    } catch {
+      // nothing left to report to
+    }
   }
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? Object.assign(new Error("Aborted"), { name: "AbortError" });
+}
 
-  if (options.signal?.aborted) {
-    throw (options.signal as any).reason ?? Object.assign(new Error("Aborted"), { name: "AbortError" });
+function linkSignal(
+  signal: AbortSignal | undefined,
+  controller: AbortController,
+  cleanup: Array<() => void>
+): void {
+  if (!signal) return;
+  const onAbort = () => controller.abort();
+  if (signal.aborted) controller.abort();
+  else {
+    signal.addEventListener("abort", onAbort, { once: true });
+    cleanup.push(() => signal.removeEventListener("abort", onAbort));
   }
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(abortReason(signal));
+    const onAbort = () => {
+      clearTimeout(id);
+      reject(abortReason(signal));
+    };
+    const id = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
 
+function startAttempt<T, I>(
+  candidate: NormalizedCandidate<T, I>,
+  attempt: number,
+  retry: number,
+  options: FallbackOptions<T>,
+  call: CallState<I>,
+  parent: AbortSignal
+): RunningAttempt<T> {
+  const { index, name, run, map } = candidate;
+  const started = Date.now();
   const accept = options.accept ?? (() => true);
-  const retryable =
-    options.retryable ??
-    ((err) => {
-      if (isAbortLike(err)) return false;
-      return true;
-    });
 
-  const errors: unknown[] = [];
+  const controller = new AbortController();
+  const cleanup: Array<() => void> = [];
 
-  for (let attempt = 0; attempt < candidates.length; attempt++) {
-    const { name, run } = normalizeCandidate(candidates[attempt]!);
-    const started = Date.now();
+  linkSignal(parent, controller, cleanup);
 
-    const controller = new AbortController();
-    const cleanup: Array<() => void> = [];
+  const configuredTimeout = getTimeoutMs(options.timeoutMs, attempt, retry);
+  const remaining = remainingMs(call);
+  const perAttemptTimeout =
+    typeof configuredTimeout === "number" && Number.isFinite(configuredTimeout) && configuredTimeout >= 0
+      ? Math.min(configuredTimeout, remaining)
+      : Number.isFinite(remaining)
+        ? remaining
+        : undefined;
 
-    if (options.signal) {
-      const onAbort = () => controller.abort();
-      if (options.signal.aborted) controller.abort();
-      else {
-        options.signal.addEventListener("abort", onAbort, { once: true });
-        cleanup.push(() => options.signal?.removeEventListener("abort", onAbort));
-      }
-    }
+  let timeoutId: any | undefined;
+  let timeoutRejection: Promise<never> | undefined;
 
-    const perAttemptTimeout = getTimeoutMs(options.timeoutMs, attempt);
+  if (perAttemptTimeout !== undefined) {
+    timeoutRejection = new Promise((_, reject) => {
+      timeoutId = setTimeout(() => {
+        if (perAttemptTimeout === remaining) call.expired = true;
+        // Reject first so a candidate that rejects as soon as it is aborted still counts as a timeout.
+        reject(new TimeoutError(perAttemptTimeout));
+        controller.abort();
+      }, perAttemptTimeout);
+    });
+    cleanup.push(() => clearTimeout(timeoutId));
+  }
 
-    let timeoutId: any | undefined;
-    let timeoutRejection: Promise<never> | undefined;
+  const ctx: AttemptContext<I> = {
+    attempt,
+    retry,
+    input: call.input,
+    remainingMs: remaining,
+    signal: controller.signal,
+    errors: call.errors
+  };
 
-    if (typeof perAttemptTimeout === "number" && Number.isFinite(perAttemptTimeout) && perAttemptTimeout >= 0) {
-      timeoutRejection = new Promise((_, reject) => {
-        timeoutId = setTimeout(() => {
-          controller.abort();
-          reject(new TimeoutError(perAttemptTimeout));
-        }, perAttemptTimeout);
-      });
-      cleanup.push(() => clearTimeout(timeoutId));
-    }
+  const startInfo: AttemptStartInfo = { attempt, index, retry, elapsedMs: started - call.started, remainingMs: remaining };
+  if (name !== undefined) startInfo.name = name;
+  callHook(options, "onAttemptStart", startInfo);
 
-    const ctx: AttemptContext = { attempt, signal: controller.signal, errors };
+  // What `run` and `map` resolve with (even after a timeout): a `Response` among them that
+  // nobody will read has its body cancelled, so its connection is freed.
+  const produced: Array<MaybePromise<unknown>> = [];
+  const discardAll = () => {
+    for (const pending of produced) Promise.resolve(pending).then(discardBody, () => {});
+  };
 
+  const result = (async (): Promise<AttemptResult<T>> => {
     try {
-      const value = await (timeoutRejection
-        ? Promise.race([Promise.resolve(run(ctx)), timeoutRejection])
-        : Promise.resolve(run(ctx))) as T;
-
-      if (!accept(value, { attempt })) {
-        const err = Object.assign(new Error("Unacceptable result"), {
-          name: "UnacceptableResultError",
-          value
-        });
-        errors.push(err);
-        const info = {
-          attempt,
-          outcome: "unacceptable" as const,
-          durationMs: Date.now() - started,
-          value
-        };
-        if (name === undefined) options.onAttempt?.(info);
-        else options.onAttempt?.({ ...info, name });
-        continue;
+      // `map` and an async `accept` count against the attempt's timeout too.
+      const withTimeout = <V>(pending: MaybePromise<V>): Promise<V> =>
+        timeoutRejection ? Promise.race([Promise.resolve(pending), timeoutRejection]) : Promise.resolve(pending);
+      const keep = <V>(pending: MaybePromise<V>): MaybePromise<V> => (produced.push(pending), pending);
+
+      const raw = await withTimeout(keep(run(ctx)));
+      let value = raw as T;
+      if (map) {
+        try {
+          value = await withTimeout(keep(map(raw)));
+        } catch (err) {
+          if (err instanceof TimeoutError) throw err;
+          const reason = `map failed: ${err instanceof Error ? err.message : String(err)}`;
+          // Report the raw output: there is no mapped value.
+          discardAll();
+          return { outcome: "unacceptable", value, error: new UnacceptableResultError(raw, reason, err) };
+        }
       }
 
-      const info = {
-        attempt,
-        outcome: "success" as const,
-        durationMs: Date.now() - started,
-        value
-      };
-      if (name === undefined) options.onAttempt?.(info);
-      else options.onAttempt?.({ ...info, name });
+      const verdict = readVerdict(await withTimeout(accept(value, { attempt, retry })));
+      if (!verdict.ok) {
+        discardAll();
+        return { outcome: "unacceptable", value, error: new UnacceptableResultError(value, verdict.reason) };
+      }
 
-      return value;
+      return { outcome: "success", value };
     } catch (err) {
-      const durationMs = Date.now() - started;
-
+      discardAll();
       const outcome: "rejected" | "timeout" | "aborted" =
         err instanceof TimeoutError
           ? "timeout"
           : isAbortLike(err) || controller.signal.aborted
             ? "aborted"
             : "rejected";
+      return { outcome, error: err };
+    } finally {
+      for (const fn of cleanup) fn();
+    }
+  })();
+
+  const running: RunningAttempt<T> = { attempt, index, retry, started, controller, result };
+  if (name !== undefined) running.name = name;
+  if (candidate.cost !== undefined) running.cost = candidate.cost;
+  return running;
+}
+
+function emitAttempt<T>(
+  options: FallbackOptions<T>,
+  call: CallState<unknown>,
+  running: AttemptMeta,
+  outcome: AttemptOutcome,
+  detail: { value?: T; error?: unknown; retryDelayMs?: number } = {}
+): void {
+  const info: AttemptInfo<T> = {
+    attempt: running.attempt,
+    index: running.index,
+    retry: running.retry,
+    outcome,
+    durationMs: Date.now() - running.started,
+    ...detail
+  };
+  if (running.name !== undefined) info.name = running.name;
+  if (running.cost !== undefined) info.cost = running.cost;
+  call.attempts.push(info);
+  callHook(options, "onAttempt", info);
+}
+
+function reportResult<T>(
+  options: FallbackOptions<T>,
+  call: CallState<unknown>,
+  running: AttemptMeta,
+  result: AttemptResult<T>,
+  retryDelayMs?: number
+): void {
+  const detail = retryDelayMs === undefined ? {} : { retryDelayMs };
+  if (result.outcome === "success") {
+    emitAttempt(options, call, running, result.outcome, { ...detail, value: result.value });
+  } else if (result.outcome === "unacceptable") {
+    emitAttempt(options, call, running, result.outcome, { ...detail, value: result.value, error: result.error });
+  } else {
+    emitAttempt(options, call, running, result.outcome, { ...detail, error: result.error });
+  }
+}
+
+function defaultRetryable(err: unknown): boolean {
+  if (isAbortLike(err)) return false;
+  return true;
+}
+
+function recordBreaker<T>(breaker: CircuitBreaker, result: AttemptResult<T>): void {
+  if (result.outcome === "success") breaker.recordSuccess();
+  else if (result.outcome === "aborted") breaker.release();
+  else breaker.recordFailure();
+}
+
+/**
+ * Run one candidate, retrying it with backoff according to its retry policy.
+ * Every try is reported through `onAttempt`; failures are appended to `errors`
+ * unless they stop the chain (abort or non-retryable error). An open circuit
+ * breaker skips the candidate with a `CircuitOpenError`, an empty rate limiter
+ * with a `RateLimitedError` and a saturated bulkhead with a `BulkheadRejectedError`.
+ */
+function runCandidate<T, I>(
+  candidate: Candidate<T, I>,
+  index: number,
+  attempt: number,
+  options: FallbackOptions<T>,
+  call: CallState<I>
+): CandidateRun<T> {
+  const normalized = normalizeCandidate(candidate, index);
+  const policy = resolveRetryPolicy(normalized.retries ?? options.retries);
+  const retryable = options.retryable ?? defaultRetryable;
+
+  const controller = new AbortController();
+  const cleanup: Array<() => void> = [];
+  linkSignal(options.signal, controller, cleanup);
+
+  // The drivers flag `cancelled` on (and read `current` from) this same object while `result` runs.
+  const run: Omit<CandidateRun<T>, "result"> = { controller, cancelled: false, current: undefined };
+
+  const result: CandidateRun<T>["result"] = (async () => {
+    const failures: unknown[] = [];
+    try {
+      for (let retry = 0; ; retry++) {
+        const { breaker, bulkhead, rateLimiter } = normalized;
+        const meta: AttemptMeta = { attempt, index, retry, started: Date.now() };
+        if (normalized.name !== undefined) meta.name = normalized.name;
+
+        const skip = (outcome: "skipped" | "saturated", error: unknown) => {
+          emitAttempt(options, call, meta, outcome, { error });
+          call.errors.push(error);
+          failures.push(error);
+          return { result: { outcome, error }, stop: false, failures };
+        };
+
+        if (breaker && !breaker.tryAcquire()) {
+          return skip("skipped", new CircuitOpenError(normalized.name));
+        }
+
+        if (bulkhead) {
+          let acquired: boolean;
+          try {
+            acquired = await bulkhead.acquire(controller.signal, remainingMs(call));
+          } catch (err) {
+            breaker?.release();
+            const error = options.signal?.aborted ? abortReason(options.signal) : err;
+            return { result: { outcome: "aborted", error }, stop: true, failures };
+          }
+          if (!acquired) {
+            breaker?.release();
+            return skip("saturated", new BulkheadRejectedError(normalized.name));
+          }
+        }
+
+        // Checked after the breaker and bulkhead so a token is only spent on a call that can go ahead.
+        if (rateLimiter && !rateLimiter.tryAcquire()) {
+          breaker?.release();
+          bulkhead?.release();
+          return skip("skipped", new RateLimitedError(normalized.name, rateLimiter.retryAfterMs()));
+        }
+
+        // A candidate skipped above costs nothing, so it can't stop the call on budget.
+        const cost = normalized.cost ?? 0;
+        if (options.maxCost !== undefined && call.spent + cost > options.maxCost) {
+          breaker?.release();
+          bulkhead?.release();
+          const error = new BudgetExceededError(options.maxCost, call.spent, [...call.errors], call.attempts);
+          return { result: { outcome: "skipped", error }, stop: true, failures };
+        }
+
+        call.spent += cost;
+        const running = startAttempt(normalized, attempt, retry, options, call, controller.signal);
+        run.current = running;
+        const result = await running.result.finally(() => bulkhead?.release());
+        run.current = undefined;
+
+        // Cancelled by a concurrent driver, which already reported it.
+        if (run.cancelled) {
+          breaker?.release();
+          return { result, stop: true, failures };
+        }
 
-      const info = { attempt, outcome, durationMs, error: err };
-      if (name === undefined) options.onAttempt?.(info);
-      else options.onAttempt?.({ ...info, name });
+        if (breaker) recordBreaker(breaker, result);
 
-      if (outcome === "aborted") throw err;
+        if (result.outcome === "success") {
+          reportResult(options, call, running, result);
+          return { result, stop: false, failures };
+        }
 
-      if (!retryable(err, { attempt })) throw err;
+        // Once the deadline has cut a try short, the driver reports `DeadlineExceededError`
+        // rather than stopping on whatever `retryable` says about the timeout.
+        const stop =
+          result.outcome === "aborted" ||
+          (result.outcome !== "unacceptable" && !call.expired && !retryable(result.error, { attempt, retry }));
 
-      errors.push(err);
-      continue;
+        const retryDelayMs =
+          stop || retry >= policy.retries ? undefined : getRetryDelayMs(policy, retry, result.error);
+
+        // Don't schedule a retry that would only wake up after the deadline.
+        if (retryDelayMs === undefined || retryDelayMs >= remainingMs(call)) {
+          reportResult(options, call, running, result);
+          if (!stop) {
+            call.errors.push(result.error);
+            failures.push(result.error);
+          }
+          return { result, stop, failures };
+        }
+
+        reportResult(options, call, running, result, retryDelayMs);
+        call.errors.push(result.error);
+        failures.push(result.error);
+
+        try {
+          await sleep(retryDelayMs, controller.signal);
+        } catch (err) {
+          const error = options.signal?.aborted ? abortReason(options.signal) : err;
+          const aborted: AttemptResult<T> = { outcome: "aborted", error };
+          return { result: aborted, stop: true, failures };
+        }
+      }
     } finally {
       for (const fn of cleanup) fn();
     }
+  })();
+
+  return Object.assign(run, { result });
+}
+
+function assertCandidates(fn: string, candidates: readonly unknown[]): void {
+  if (!Array.isArray(candidates) || candidates.length === 0) {
+    throw new TypeError(`${fn}(candidates): candidates must be a non-empty array`);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// Shadow candidates
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Start a call's shadows (if sampled) after the live candidates. Returns the
+ * function that hands them the live outcome: a value to compare against, or
+ * `undefined` when the call failed and the shadows are aborted.
+ */
+function startShadows<T>(
+  options: FallbackOptions<T>,
+  call: CallState<unknown>
+): ((live: { value: T } | undefined) => void) | undefined {
+  const shadow = options.shadow;
+  if (!shadow || shadow.candidates.length === 0) return undefined;
+  if (!((shadow.random ?? Math.random)() < (shadow.sampleRate ?? 1))) return undefined;
+
+  const controller = new AbortController();
+  const cleanup: Array<() => void> = [];
+  linkSignal(options.signal, controller, cleanup);
+
+  let settleLive!: (live: { value: T } | undefined) => void;
+  const live = new Promise<{ value: T } | undefined>((resolve) => (settleLive = resolve));
+
+  const shadowOptions: FallbackOptions<T> = { signal: controller.signal, deadlineMs: shadow.timeoutMs };
+  if (options.accept) shadowOptions.accept = options.accept;
+
+  const runShadow = async (candidate: Candidate<T, unknown>, index: number) => {
+    const { name } = normalizeCandidate(candidate, index);
+    const started = Date.now();
+    const info = (): ShadowInfo => {
+      const out: ShadowInfo = { index, durationMs: Date.now() - started };
+      if (name !== undefined) out.name = name;
+      return out;
+    };
+
+    let value: T;
+    try {
+      value = await runSequential("shadow", [candidate], shadowOptions, createCallState(shadowOptions, call.input));
+    } catch (err) {
+      shadow.onError?.(err, info());
+      return;
+    }
+    const done = info();
+    const result = await live;
+    if (!result) return;
+    try {
+      shadow.compare(result.value, value, done);
+    } catch (err) {
+      shadow.onError?.(err, done);
+    }
+  };
+
+  // Start a macrotask later, once the live candidates are running: a shadow's synchronous
+  // work must not delay them.
+  setTimeout(() => {
+    if (controller.signal.aborted) {
+      cleanup.forEach((fn) => fn());
+      return;
+    }
+    const runs = shadow.candidates.map((candidate, index) =>
+      // A shadow must never surface as an unhandled rejection, even if `onError` throws.
+      runShadow(candidate, index).catch(() => {})
+    );
+    void Promise.all(runs).then(() => cleanup.forEach((fn) => fn()));
+  }, 0);
+
+  return (result) => {
+    settleLive(result);
+    if (!result) controller.abort();
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Core fallback function
+// ─────────────────────────────────────────────────────────────
+
+function deadlineExceeded<T>(options: FallbackOptions<T>, call: CallState<unknown>): DeadlineExceededError | undefined {
+  if (call.deadline === undefined || remainingMs(call) > 0) return undefined;
+  return new DeadlineExceededError(options.deadlineMs!, [...call.errors], call.attempts);
+}
+
+function buildReport<T>(call: CallState<unknown>, value: T): FallbackReport<T> {
+  const attempts = call.attempts as AttemptInfo<T>[];
+  const won = attempts.filter((a) => a.outcome === "success").pop()!;
+  const winner: FallbackReport<T>["winner"] = { attempt: won.attempt, index: won.index, retry: won.retry };
+  if (won.name !== undefined) winner.name = won.name;
+  return { value, winner, attempts, totalDurationMs: Date.now() - call.started, totalCost: call.spent };
+}
+
+/** Fire the call-level hooks (`onStart`, `onSuccess`, `onFailure`) around one call. */
+async function observeCall<T, I>(
+  options: FallbackOptions<T>,
+  call: CallState<I>,
+  candidates: number,
+  run: () => Promise<T>
+): Promise<T> {
+  callHook(options, "onStart", { input: call.input, candidates });
+  const shadows = startShadows(options, call);
+  try {
+    const value = await run();
+    shadows?.({ value });
+    if (options.onSuccess) callHook(options, "onSuccess", buildReport(call, value));
+    return value;
+  } catch (err) {
+    shadows?.(undefined);
+    const info: FailureInfo<T> = { attempts: call.attempts, totalDurationMs: Date.now() - call.started };
+    callHook(options, "onFailure", err, info);
+    throw err;
   }
+}
 
-  throw new FallbackError(
-    `All ${candidates.length} fallback candidates failed`,
-    errors
+function candidateRef<T, I>(candidates: readonly Candidate<T, I>[], index: number, attempt: number): CandidateRef {
+  const { name } = normalizeCandidate(candidates[index]!, index);
+  return name === undefined ? { attempt, index } : { attempt, index, name };
+}
+
+function emitFallback<T, I>(
+  options: FallbackOptions<T>,
+  candidates: readonly Candidate<T, I>[],
+  from: { attempt: number; index: number },
+  to: { attempt: number; index: number },
+  result: AttemptResult<T>
+): void {
+  if (!options.onFallback || result.outcome === "success") return;
+  callHook(
+    options,
+    "onFallback",
+    candidateRef(candidates, from.index, from.attempt),
+    candidateRef(candidates, to.index, to.attempt),
+    { outcome: result.outcome, error: result.error }
   );
 }
+
+/** Apply the per-call `select` option to a run order, dropping unknown and repeated indices. */
+function selectOrder<T, I>(
+  candidates: readonly Candidate<T, I>[],
+  options: FallbackOptions<T>,
+  call: CallState<I>,
+  order: readonly number[]
+): readonly number[] {
+  const valid = (indices: readonly number[]) => [
+    ...new Set(indices.filter((i) => candidates[i] !== undefined))
+  ];
+  const base = valid(order);
+  if (!options.select) return base;
+  return valid(options.select(base.map((i) => describeCandidate(candidates[i]!, i)), call.input));
+}
+
+/** Rejects calls whose `select` left no (valid) candidate to run. */
+function assertSelected<I>(fn: string, order: readonly number[], call: CallState<I>): void {
+  if (order.length === 0) {
+    throw new FallbackError(`${fn}(): select() chose no candidates to run`, [], call.attempts);
+  }
+}
+
+async function runSequential<T, I>(
+  fn: string,
+  candidates: readonly Candidate<T, I>[],
+  options: FallbackOptions<T>,
+  call: CallState<I>,
+  declared: readonly number[] = candidates.map((_, i) => i)
+): Promise<T> {
+  assertCandidates(fn, candidates);
+  const order = selectOrder(candidates, options, call, declared);
+
+  return observeCall(options, call, order.length, async () => {
+    if (options.signal?.aborted) {
+      throw abortReason(options.signal);
+    }
+    assertSelected(fn, order, call);
+
+    for (let attempt = 0; attempt < order.length; attempt++) {
+      const expired = deadlineExceeded(options, call);
+      if (expired) throw expired;
+
+      const index = order[attempt]!;
+      const { result, stop } = await runCandidate(candidates[index]!, index, attempt, options, call).result;
+
+      if (result.outcome === "success") return result.value;
+      if (stop) throw result.error;
+
+      const next = order[attempt + 1];
+      if (next !== undefined && !deadlineExceeded(options, call)) {
+        emitFallback(options, candidates, { attempt, index }, { attempt: attempt + 1, index: next }, result);
+      }
+    }
+
+    throw (
+      deadlineExceeded(options, call) ??
+      new FallbackError(`All ${order.length} fallback candidates failed`, call.errors, call.attempts)
+    );
+  });
+}
+
+/** A candidate list of mixed value types; `CandidateValue<C[number]>` is the union of their values */
+type MixedCandidates = readonly Candidate<any>[];
+
+export function fallback<C extends MixedCandidates>(
+  candidates: C,
+  options?: FallbackOptions<CandidateValue<C[number]>>
+): Promise<CandidateValue<C[number]>>;
+export function fallback<T>(candidates: readonly Candidate<T>[], options?: FallbackOptions<T>): Promise<T>;
+export async function fallback<T>(
+  candidates: readonly Candidate<T>[],
+  options: FallbackOptions<T> = {}
+): Promise<T> {
+  return runSequential("fallback", candidates, options, createCallState(options, undefined));
+}
+
+async function withReport<T, I>(
+  call: CallState<I>,
+  run: (call: CallState<I>) => Promise<T>
+): Promise<FallbackReport<T>> {
+  return buildReport(call, await run(call));
+}
+
+/**
+ * Like `fallback()`, but resolves with a report: the value, which candidate
+ * won, every attempt (as passed to `onAttempt`) and the total duration.
+ */
+export function fallbackWithReport<C extends MixedCandidates>(
+  candidates: C,
+  options?: FallbackOptions<CandidateValue<C[number]>>
+): Promise<FallbackReport<CandidateValue<C[number]>>>;
+export function fallbackWithReport<T>(
+  candidates: readonly Candidate<T>[],
+  options?: FallbackOptions<T>
+): Promise<FallbackReport<T>>;
+export async function fallbackWithReport<T>(
+  candidates: readonly Candidate<T>[],
+  options: FallbackOptions<T> = {}
+): Promise<FallbackReport<T>> {
+  return withReport(createCallState(options, undefined), (call) =>
+    runSequential("fallbackWithReport", candidates, options, call)
+  );
+}
+
+// ─────────────────────────────────────────────────────────────
+// Concurrent execution (hedge / race)
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Run candidates in order, but start the next one after `delayFor(attempt)` ms
+ * even if earlier attempts are still in flight. The first acceptable value wins;
+ * every attempt still running at that point is aborted and reported as "cancelled".
+ */
+function runConcurrent<T, I>(
+  fn: string,
+  candidates: readonly Candidate<T, I>[],
+  options: FallbackOptions<T>,
+  call: CallState<I>,
+  delayFor: (attempt: number) => number,
+  agreement?: Agreement<T>
+): Promise<T> {
+  assertCandidates(fn, candidates);
+  const order = selectOrder(candidates, options, call, candidates.map((_, i) => i));
+
+  return observeCall(options, call, order.length, () => {
+    if (options.signal?.aborted) {
+      return Promise.reject(abortReason(options.signal));
+    }
+    assertSelected(fn, order, call);
+
+    return new Promise<T>((resolve, reject) => {
+      const failures: unknown[][] = [];
+      const running = new Map<number, CandidateRun<T>>();
+      let next = 0;
+      let settled = false;
+      let timer: any | undefined;
+      let deadlineTimer: any | undefined;
+
+      const onChainAbort = () => {
+        const reason = abortReason(options.signal!);
+        settle(() => reject(reason), "aborted", reason);
+      };
+      options.signal?.addEventListener("abort", onChainAbort, { once: true });
+
+      function expire() {
+        call.expired = true;
+        const error = new DeadlineExceededError(options.deadlineMs!, failures.flat(), call.attempts);
+        settle(() => reject(error), "timeout", error);
+      }
+      if (call.deadline !== undefined) deadlineTimer = setTimeout(expire, remainingMs(call));
+
+      function settle(done: () => void, losers: AttemptOutcome = "cancelled", error?: unknown) {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        clearTimeout(deadlineTimer);
+        options.signal?.removeEventListener("abort", onChainAbort);
+        try {
+          for (const r of running.values()) {
+            r.cancelled = true;
+            r.controller.abort();
+            if (r.current) emitAttempt(options, call, r.current, losers, error === undefined ? {} : { error });
+          }
+        } finally {
+          running.clear();
+          done();
+        }
+      }
+
+      function launch() {
+        clearTimeout(timer);
+        if (settled || next >= order.length) return;
+
+        const attempt = next++;
+        const index = order[attempt]!;
+        const r = runCandidate(candidates[index]!, index, attempt, options, call);
+        running.set(attempt, r);
+        r.result.then(
+          (outcome) => onResult(attempt, outcome),
+          (err) => settle(() => reject(err))
+        );
+
+        if (next >= order.length) return;
+        const delay = delayFor(next);
+        if (delay === Infinity) return;
+        if (delay > 0) timer = setTimeout(launch, delay);
+        else launch();
+      }
+
+      function onResult(
+        attempt: number,
+        { result, stop, failures: candidateFailures }: Awaited<CandidateRun<T>["result"]>
+      ) {
+        // Losers were already reported as "cancelled" when the chain settled.
+        if (settled) {
+          if (result.outcome === "success") discardBody(result.value);
+          return;
+        }
+        running.delete(attempt);
+
+        if (result.outcome === "success") {
+          const agreed = agreement ? agreement.add(result.value) : result;
+          if (agreed) {
+            settle(() => resolve(agreed.value));
+            return;
+          }
+        } else if (stop) {
+          settle(() => reject(result.error));
+          return;
+        }
+
+        failures[attempt] = candidateFailures;
+
+        const pending = running.size + order.length - next;
+        if (call.deadline !== undefined && remainingMs(call) <= 0) expire();
+        else if (agreement && !agreement.reachable(pending)) {
+          settle(() => reject(agreement.error(failures.flat(), call.attempts)));
+        }
+        else if (next < order.length && !agreement?.reachable(running.size)) {
+          // A disagreeing value is not a failure, so it starts the next candidate without `onFallback`.
+          if (result.outcome !== "success") {
+            const from = { attempt, index: order[attempt]! };
+            emitFallback(options, candidates, from, { attempt: next, index: order[next]! }, result);
+          }
+          launch();
+          // Consensus: start candidates until the ones in flight could reach quorum.
+          while (agreement && !settled && next < order.length && !agreement.reachable(running.size)) launch();
+        }
+        else if (running.size === 0) {
+          settle(() =>
+            reject(
+              agreement?.error(failures.flat(), call.attempts) ??
+                new FallbackError(`All ${order.length} fallback candidates failed`, failures.flat(), call.attempts)
+            )
+          );
+        }
+      }
+
+      launch();
+    });
+  });
+}
+
+function getHedgeDelayMs<T>(
+  hedgeDelayMs: HedgeOptions<T>["hedgeDelayMs"],
+  attempt: number
+): number {
+  if (typeof hedgeDelayMs === "function") return hedgeDelayMs({ attempt });
+  return hedgeDelayMs;
+}
+
+/**
+ * Hedged requests ("The Tail at Scale"): like `fallback()`, but a slow candidate
+ * does not block the next one. After `hedgeDelayMs` the next candidate starts
+ * while earlier ones keep running; the first acceptable value wins and the
+ * losers' `AttemptContext.signal` is aborted.
+ */
+export function hedge<C extends MixedCandidates>(
+  candidates: C,
+  options: HedgeOptions<CandidateValue<C[number]>>
+): Promise<CandidateValue<C[number]>>;
+export function hedge<T>(candidates: readonly Candidate<T>[], options: HedgeOptions<T>): Promise<T>;
+export function hedge<T>(
+  candidates: readonly Candidate<T>[],
+  options: HedgeOptions<T>
+): Promise<T> {
+  return runConcurrent("hedge", candidates, options, createCallState(options, undefined), (attempt) =>
+    getHedgeDelayMs(options.hedgeDelayMs, attempt)
+  );
+}
+
+/**
+ * Start every candidate at once. The first acceptable value wins and all other
+ * attempts are aborted through their `AttemptContext.signal`. If none succeed,
+ * throws `FallbackError` with the errors in candidate order.
+ */
+export function race<C extends MixedCandidates>(
+  candidates: C,
+  options?: FallbackOptions<CandidateValue<C[number]>>
+): Promise<CandidateValue<C[number]>>;
+export function race<T>(candidates: readonly Candidate<T>[], options?: FallbackOptions<T>): Promise<T>;
+export function race<T>(
+  candidates: readonly Candidate<T>[],
+  options: FallbackOptions<T> = {}
+): Promise<T> {
+  return runConcurrent("race", candidates, options, createCallState(options, undefined), () => 0);
+}
+
+/** Values collected by `consensus()`, grouped by agreement. */
+interface Agreement<T> {
+  /** Record a value; returns the agreed value once `quorum` values agree. */
+  add(value: T): { value: T } | undefined;
+  /** Whether quorum can still be reached with this many more values. */
+  reachable(pending: number): boolean;
+  error(errors: readonly unknown[], attempts: readonly AttemptInfo<unknown>[]): ConsensusError;
+}
+
+function createAgreement<T>(quorum: number, equals: (a: T, b: T) => boolean): Agreement<T> {
+  const groups: T[][] = [];
+  return {
+    add(value) {
+      let group = groups.find((g) => equals(g[0]!, value));
+      if (!group) groups.push((group = []));
+      group.push(value);
+      return group.length >= quorum ? { value: group[0]! } : undefined;
+    },
+    reachable: (pending) => Math.max(0, ...groups.map((g) => g.length)) + pending >= quorum,
+    error: (errors, attempts) =>
+      new ConsensusError(quorum, [...groups].sort((a, b) => b.length - a.length), errors, attempts)
+  };
+}
+
+/**
+ * Start `concurrency` candidates at once and resolve with the first value that
+ * `quorum` of them agree on (under `equals`). Failed or disagreeing attempts
+ * start further candidates; once quorum is reached every attempt still running
+ * is aborted. Throws `ConsensusError` with the disagreeing values as soon as
+ * quorum can no longer be reached.
+ */
+export function consensus<C extends MixedCandidates>(
+  candidates: C,
+  options: ConsensusOptions<CandidateValue<C[number]>>
+): Promise<CandidateValue<C[number]>>;
+export function consensus<T>(candidates: readonly Candidate<T>[], options: ConsensusOptions<T>): Promise<T>;
+export function consensus<T>(
+  candidates: readonly Candidate<T>[],
+  options: ConsensusOptions<T>
+): Promise<T> {
+  const quorum = Math.max(1, Math.floor(options.quorum));
+  const concurrency = Math.max(1, options.concurrency ?? quorum);
+  return runConcurrent(
+    "consensus",
+    candidates,
+    options,
+    createCallState(options, undefined),
+    (attempt) => (attempt < concurrency ? 0 : Infinity),
+    createAgreement(quorum, options.equals ?? Object.is)
+  );
+}
+
+// ─────────────────────────────────────────────────────────────
+// Streaming
+// ─────────────────────────────────────────────────────────────
+
+export type StreamSource<C> = AsyncIterable<C> | ReadableStream<C>;
+
+export interface StreamContext<C, I = void> extends AttemptContext<I> {
+  /** Chunks already passed to the consumer by earlier candidates (mid-stream failover only) */
+  emitted: readonly C[];
+}
+
+export type StreamCandidateFn<C, I = void> = (ctx: StreamContext<C, I>) => MaybePromise<StreamSource<C>>;
+export type StreamCandidate<C, I = void> =
+  | StreamCandidateFn<C, I>
+  | { name?: string; run: StreamCandidateFn<C, I>; breaker?: CircuitBreaker };
+
+export interface StreamOptions<C>
+  extends Pick<FallbackOptions<unknown>, "signal" | "retryable" | "onAttemptStart" | "onFallback" | "onHookError"> {
+  /** Max time (ms) from calling a candidate until its first chunk arrives. */
+  firstChunkTimeoutMs?: number;
+
+  /** Max gap (ms) between two chunks of the same candidate. */
+  idleTimeoutMs?: number;
+
+  /**
+   * Inspect the first `acceptChunks` chunks before any of them is passed on.
+   * Return false (or `{ ok: false, reason }`) to fall back to the next candidate.
+   */
+  accept?: (chunks: readonly C[]) => MaybePromise<AcceptVerdict>;
+
+  /** How many chunks `accept` sees (fewer if the stream ends first). Default 1. */
+  acceptChunks?: number;
+
+  /**
+   * Opt in to failing over after output was already passed on. Called with the
+   * emitted chunks before the next candidate starts (which also sees them as
+   * `ctx.emitted`); return false to give up and rethrow instead.
+   * Without it, a candidate failing mid-stream fails the whole stream.
+   */
+  resume?: (
+    emitted: readonly C[],
+    info: { from: CandidateRef; to: CandidateRef; reason: FallbackReason }
+  ) => boolean | void;
+
+  /** Called when each candidate ends; `value` is never set. */
+  onAttempt?: (info: AttemptInfo<unknown>) => void;
+}
+
+interface ChunkReader<C> {
+  next(): Promise<IteratorResult<C, unknown>>;
+  cancel(reason?: unknown): void;
+}
+
+function openStream<C>(source: StreamSource<C>): ChunkReader<C> {
+  if (source && typeof (source as ReadableStream<C>).getReader === "function") {
+    const reader = (source as ReadableStream<C>).getReader();
+    return {
+      next: async () => {
+        const r = await reader.read();
+        return r.done ? { done: true, value: undefined } : { done: false, value: r.value };
+      },
+      cancel: (reason) => {
+        reader.cancel(reason).catch(() => {});
+      }
+    };
+  }
+  if (source && typeof (source as AsyncIterable<C>)[Symbol.asyncIterator] === "function") {
+    const iterator = (source as AsyncIterable<C>)[Symbol.asyncIterator]();
+    return {
+      next: () => iterator.next(),
+      cancel: () => {
+        Promise.resolve(iterator.return?.()).catch(() => {});
+      }
+    };
+  }
+  throw new TypeError("fallbackStream(candidates): candidates must return an AsyncIterable or ReadableStream");
+}
+
+/** Settle with `promise`, unless `signal` aborts or `timeoutMs` passes first. */
+function guard<R>(promise: Promise<R>, timeoutMs: number | undefined, signal: AbortSignal): Promise<R> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(abortReason(signal));
+    let id: any | undefined;
+    const onAbort = () => {
+      clearTimeout(id);
+      reject(abortReason(signal));
+    };
+    const done = () => {
+      clearTimeout(id);
+      signal.removeEventListener("abort", onAbort);
+    };
+    if (timeoutMs !== undefined) {
+      id = setTimeout(() => {
+        signal.removeEventListener("abort", onAbort);
+        reject(new TimeoutError(timeoutMs));
+      }, timeoutMs);
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        done();
+        resolve(value);
+      },
+      (err) => {
+        done();
+        reject(err);
+      }
+    );
+  });
+}
+
+/**
+ * Stream from the first candidate that produces acceptable output. Candidates
+ * return an `AsyncIterable` or `ReadableStream`; a candidate that fails, stalls
+ * (`firstChunkTimeoutMs` / `idleTimeoutMs`) or whose first chunks are rejected by
+ * `accept` is cancelled and the next one takes over, as long as nothing was
+ * passed on yet, or at any point when `resume` is set.
+ */
+export async function* fallbackStream<C>(
+  candidates: readonly StreamCandidate<C>[],
+  options: StreamOptions<C> = {}
+): AsyncGenerator<C, void, undefined> {
+  assertCandidates("fallbackStream", candidates);
+
+  const hooks = options as FallbackOptions<unknown>;
+  const call = createCallState(hooks, undefined);
+  const retryable = options.retryable ?? defaultRetryable;
+  const acceptChunks = Math.max(1, options.acceptChunks ?? 1);
+  const emitted: C[] = [];
+
+  for (let attempt = 0; attempt < candidates.length; attempt++) {
+    if (options.signal?.aborted) throw abortReason(options.signal);
+
+    const { name, run, breaker } = normalizeCandidate(candidates[attempt] as Candidate<StreamSource<C>>, attempt);
+    const meta: AttemptMeta = { attempt, index: attempt, retry: 0, started: Date.now() };
+    if (name !== undefined) meta.name = name;
+
+    let result: AttemptResult<unknown>;
+
+    if (breaker && !breaker.tryAcquire()) {
+      result = { outcome: "skipped", error: new CircuitOpenError(name) };
+      emitAttempt(hooks, call, meta, "skipped", { error: result.error });
+    } else {
+      const controller = new AbortController();
+      const cleanup: Array<() => void> = [];
+      linkSignal(options.signal, controller, cleanup);
+
+      const startInfo: AttemptStartInfo = {
+        attempt,
+        index: attempt,
+        retry: 0,
+        elapsedMs: meta.started - call.started,
+        remainingMs: Infinity
+      };
+      if (name !== undefined) startInfo.name = name;
+      callHook(hooks, "onAttemptStart", startInfo);
+
+      const firstBy =
+        options.firstChunkTimeoutMs === undefined ? undefined : meta.started + options.firstChunkTimeoutMs;
+      const untilFirst = () => (firstBy === undefined ? undefined : Math.max(0, firstBy - Date.now()));
+
+      let reader: ChunkReader<C> | undefined;
+      let finished = false;
+
+      try {
+        const ctx: StreamContext<C> = {
+          attempt,
+          retry: 0,
+          input: undefined,
+          remainingMs: Infinity,
+          signal: controller.signal,
+          errors: call.errors,
+          emitted: [...emitted]
+        };
+        const source = await guard(Promise.resolve((run as StreamCandidateFn<C>)(ctx)), untilFirst(), controller.signal);
+        reader = openStream(source);
+
+        const head: C[] = [];
+        let done = false;
+        while (head.length < acceptChunks) {
+          const r = await guard(
+            reader.next(),
+            head.length === 0 ? untilFirst() : options.idleTimeoutMs,
+            controller.signal
+          );
+          if (r.done) {
+            done = true;
+            break;
+          }
+          head.push(r.value);
+        }
+
+        const verdict = options.accept ? readVerdict(await options.accept(head)) : { ok: true };
+        if (!verdict.ok) {
+          const error = new UnacceptableResultError(head, verdict.reason);
+          result = { outcome: "unacceptable", value: undefined, error };
+        } else {
+          for (const chunk of head) {
+            emitted.push(chunk);
+            yield chunk;
+          }
+          while (!done) {
+            const r = await guard(reader.next(), options.idleTimeoutMs, controller.signal);
+            if (r.done) break;
+            emitted.push(r.value);
+            yield r.value;
+          }
+          result = { outcome: "success", value: undefined };
+        }
+        finished = true;
+      } catch (err) {
+        finished = true;
+        const error = options.signal?.aborted ? abortReason(options.signal) : err;
+        const outcome: "rejected" | "timeout" | "aborted" =
+          options.signal?.aborted ? "aborted" : err instanceof TimeoutError ? "timeout" : "rejected";
+        result = { outcome, error };
+      } finally {
+        for (const fn of cleanup) fn();
+        if (!finished) {
+          // The consumer stopped iterating.
+          controller.abort();
+          reader?.cancel();
+          breaker?.release();
+          emitAttempt(hooks, call, meta, "cancelled");
+        }
+      }
+
+      if (result.outcome !== "success") {
+        controller.abort();
+        reader?.cancel(result.error);
+      }
+      if (breaker) recordBreaker(breaker, result);
+
+      if (result.outcome === "success") {
+        emitAttempt(hooks, call, meta, "success");
+        return;
+      }
+      emitAttempt(hooks, call, meta, result.outcome, { error: result.error });
+    }
+
+    const { error } = result;
+    if (result.outcome === "aborted") throw error;
+    if (result.outcome === "rejected" && !retryable(error, { attempt, retry: 0 })) throw error;
+    call.errors.push(error);
+
+    if (attempt + 1 >= candidates.length) break;
+
+    const from = candidateRef(candidates as readonly Candidate<StreamSource<C>>[], attempt, attempt);
+    const to = candidateRef(candidates as readonly Candidate<StreamSource<C>>[], attempt + 1, attempt + 1);
+    const reason: FallbackReason = { outcome: result.outcome, error };
+    if (emitted.length > 0 && (!options.resume || options.resume([...emitted], { from, to, reason }) === false)) {
+      throw error;
+    }
+    callHook(hooks, "onFallback", from, to, reason);
+  }
+
+  throw new FallbackError(`All ${candidates.length} fallback candidates failed`, call.errors, call.attempts);
+}
+
+// ─────────────────────────────────────────────────────────────
+// Reusable chains
+// ─────────────────────────────────────────────────────────────
+
+export interface ChainOptions<T, I> extends FallbackOptions<T> {
+  /** Choose the run order per call (e.g. `createHealthStrategy()`). Default: declared order. */
+  strategy?: CandidateStrategy<I>;
+
+  /**
+   * Coalesce concurrent calls: calls whose input maps to the same key while one
+   * is in flight share that run and its report. The first caller's settings
+   * (timeouts, ...) apply; every caller's hooks see the run's events from the
+   * moment it joins.
+   */
+  singleFlight?: (input: I) => string;
+}
+
+/** Payloads of the events dispatched by a chain, one per lifecycle hook */
+export interface ChainEventMap<I, T> {
+  start: { input: I; candidates: number };
+  attemptstart: AttemptStartInfo;
+  attempt: AttemptInfo<T>;
+  fallback: { from: CandidateRef; to: CandidateRef; reason: FallbackReason };
+  success: FallbackReport<T>;
+  failure: FailureInfo<T> & { error: unknown };
+}
+
+export interface ChainEvent<K extends string, D> {
+  type: K;
+  detail: D;
+}
+
+export type ChainEventListener<I, T, K extends keyof ChainEventMap<I, T>> = (
+  event: ChainEvent<K, ChainEventMap<I, T>[K]>
+) => void;
+
+export interface FallbackChain<I, T> {
+  readonly candidates: readonly Candidate<T, I>[];
+  readonly defaults: ChainOptions<T, I>;
+  /** Run the chain for one input; `overrides` are merged over the chain defaults. */
+  run(input: I, overrides?: FallbackOptions<T>): Promise<T>;
+  /** Like `run()`, but resolves with a `FallbackReport`. */
+  runWithReport(input: I, overrides?: FallbackOptions<T>): Promise<FallbackReport<T>>;
+  /** Listen to every call made through the chain. Listener errors go to `onHookError`. */
+  addEventListener<K extends keyof ChainEventMap<I, T>>(
+    type: K,
+    listener: ChainEventListener<I, T, K>,
+    options?: { once?: boolean; signal?: AbortSignal }
+  ): void;
+  removeEventListener<K extends keyof ChainEventMap<I, T>>(type: K, listener: ChainEventListener<I, T, K>): void;
+}
+
+const HOOKS: readonly HookName[] = ["onStart", "onAttemptStart", "onAttempt", "onFallback", "onSuccess", "onFailure"];
+
+/**
+ * Merge per-call options over chain defaults. Hooks are composed rather than
+ * replaced, so chain-level observability keeps working when a call adds its own.
+ */
+function mergeOptions<T>(
+  defaults: FallbackOptions<T>,
+  overrides: FallbackOptions<T>
+): FallbackOptions<T> {
+  const merged: FallbackOptions<T> = { ...defaults, ...overrides };
+  for (const hook of HOOKS) {
+    const a = defaults[hook] as ((...args: unknown[]) => void) | undefined;
+    const b = overrides[hook] as ((...args: unknown[]) => void) | undefined;
+    if (a && b) {
+      (merged as Record<HookName, unknown>)[hook] = (...args: unknown[]) => {
+        try {
+          a(...args);
+        } finally {
+          b(...args);
+        }
+      };
+    }
+  }
+  return merged;
+}
+
+type AnyListener = (event: ChainEvent<string, unknown>) => void;
+
+/** Chain-level listeners, dispatched through the same hooks as per-call options */
+function createChainEvents<T>() {
+  // type -> listener as passed in -> listener as registered (wrapped for `once`)
+  const listeners = new Map<string, Map<AnyListener, AnyListener>>();
+
+  function dispatch(type: string, detail: unknown) {
+    const registered = listeners.get(type);
+    if (!registered || registered.size === 0) return;
+    let failed = false;
+    let first: unknown;
+    for (const listener of [...registered.values()]) {
+      try {
+        listener({ type, detail });
+      } catch (err) {
+        if (!failed) first = err;
+        failed = true;
+      }
+    }
+    // Surfaces through callHook → onHookError once every listener has run.
+    if (failed) throw first;
+  }
+
+  const hooks: FallbackOptions<T> = {
+    onStart: (info) => dispatch("start", info),
+    onAttemptStart: (info) => dispatch("attemptstart", info),
+    onAttempt: (info) => dispatch("attempt", info),
+    onFallback: (from, to, reason) => dispatch("fallback", { from, to, reason }),
+    onSuccess: (report) => dispatch("success", report),
+    onFailure: (error, info) => dispatch("failure", { ...info, error })
+  };
+
+  function remove(type: string, listener: AnyListener) {
+    listeners.get(type)?.delete(listener);
+  }
+
+  function add(type: string, listener: AnyListener, options: { once?: boolean; signal?: AbortSignal } = {}) {
+    if (options.signal?.aborted) return;
+    let registered = listeners.get(type);
+    if (!registered) {
+      registered = new Map();
+      listeners.set(type, registered);
+    }
+    if (registered.has(listener)) return;
+    registered.set(
+      listener,
+      options.once
+        ? (event) => {
+            remove(type, listener);
+            listener(event);
+          }
+        : listener
+    );
+    options.signal?.addEventListener("abort", () => remove(type, listener), { once: true });
+  }
+
+  return { hooks, add, remove };
+}
+
+/** One shared run of a single-flight chain */
+interface Flight<T> {
+  controller: AbortController;
+  /** Callers still waiting; the run is aborted when the last one with a signal aborts */
+  callers: number;
+  /** Per-call hooks of the callers still waiting; the run's hooks fan out to them */
+  hooks: Set<FallbackOptions<T>>;
+  report: Promise<FallbackReport<T>>;
+}
+
+/** Split per-call options into settings and hooks (with the caller's `onHookError`). */
+function splitHooks<T>(overrides: FallbackOptions<T>): { settings: FallbackOptions<T>; hooks: FallbackOptions<T> } {
+  const settings: FallbackOptions<T> = { ...overrides };
+  const hooks: FallbackOptions<T> = {};
+  for (const name of [...HOOKS, "onHookError"] as const) {
+    if (overrides[name] === undefined) continue;
+    (hooks as Record<string, unknown>)[name] = overrides[name];
+    delete settings[name];
+  }
+  return { settings, hooks };
+}
+
+/** Hooks that pass every event of a shared run on to the callers waiting for it. */
+function fanOutHooks<T>(callers: Set<FallbackOptions<T>>): FallbackOptions<T> {
+  const call = callHook as (options: FallbackOptions<T>, hook: HookName, ...args: unknown[]) => void;
+  const out: FallbackOptions<T> = {};
+  for (const name of HOOKS) {
+    (out as Record<HookName, unknown>)[name] = (...args: unknown[]) => {
+      // Each caller's hook errors go to its own `onHookError`.
+      for (const hooks of [...callers]) call(hooks, name, ...args);
+    };
+  }
+  return out;
+}
+
+function joinFlight<T>(flight: Flight<T>, overrides: FallbackOptions<T>): Promise<FallbackReport<T>> {
+  const { signal } = overrides;
+  const { hooks } = splitHooks(overrides);
+  flight.callers++;
+  flight.hooks.add(hooks);
+  if (!signal) return flight.report;
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      flight.hooks.delete(hooks);
+      if (--flight.callers === 0) {
+        // Nobody is waiting any more; the shared run's rejection has no reader.
+        flight.report.catch(() => {});
+        flight.controller.abort(abortReason(signal));
+      }
+      reject(abortReason(signal));
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    flight.report.then(
+      (report) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(report);
+      },
+      (err) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(err);
+      }
+    );
+  });
+}
+
+/**
+ * Build a reusable chain: candidates and default options are declared once
+ * (e.g. at module level) and each `chain.run(input)` passes a typed input to
+ * candidates via `AttemptContext.input`. Breakers and other state attached to
+ * the candidates live as long as the chain.
+ */
+export function createFallbackChain<I, T>(
+  candidates: readonly Candidate<T, I>[],
+  defaults: ChainOptions<T, I> = {}
+): FallbackChain<I, T> {
+  assertCandidates("createFallbackChain", candidates);
+
+  const { strategy, singleFlight, ...options } = defaults;
+  const observe = strategy?.observe?.bind(strategy);
+  const events = createChainEvents<T>();
+  const base = mergeOptions(observe ? mergeOptions(options, { onAttempt: observe }) : options, events.hooks);
+
+  const descriptors = candidates.map((c, index) => describeCandidate(c, index));
+
+  const execute = (fn: string, options: FallbackOptions<T>, call: CallState<I>) =>
+    runSequential(
+      fn,
+      candidates,
+      options,
+      call,
+      strategy ? strategy.select(descriptors, call.input) : undefined
+    );
+
+  const flights = new Map<string, Flight<T>>();
+
+  /** Join the in-flight run for this input's key, or start one that outlives its first caller. */
+  const coalesce = (key: string, input: I, overrides: FallbackOptions<T>): Promise<FallbackReport<T>> => {
+    if (overrides.signal?.aborted) return Promise.reject(abortReason(overrides.signal));
+
+    let flight = flights.get(key);
+    if (!flight || flight.controller.signal.aborted) {
+      const controller = new AbortController();
+      const cleanup: Array<() => void> = [];
+      linkSignal(base.signal, controller, cleanup);
+      const hooks = new Set<FallbackOptions<T>>();
+      const { settings } = splitHooks(overrides);
+      const options = mergeOptions(base, { ...settings, ...fanOutHooks(hooks), signal: controller.signal });
+      const report = withReport(createCallState(options, input), (call) =>
+        execute("chain.run", options, call)
+      );
+      const started: Flight<T> = { controller, callers: 0, hooks, report };
+      const settle = () => {
+        if (flights.get(key) === started) flights.delete(key);
+        hooks.clear();
+        for (const fn of cleanup) fn();
+      };
+      report.then(settle, settle);
+      flights.set(key, started);
+      flight = started;
+    }
+    return joinFlight(flight, overrides);
+  };
+
+  const runWithReport = (input: I, overrides: FallbackOptions<T> = {}): Promise<FallbackReport<T>> => {
+    if (singleFlight) return coalesce(singleFlight(input), input, overrides);
+    const options = mergeOptions(base, overrides);
+    return withReport(createCallState(options, input), (call) =>
+      execute("chain.runWithReport", options, call)
+    );
+  };
+
+  return {
+    candidates,
+    defaults,
+    run: (input, overrides = {}) => {
+      if (singleFlight) return coalesce(singleFlight(input), input, overrides).then((r) => r.value);
+      const options = mergeOptions(base, overrides);
+      return execute("chain.run", options, createCallState(options, input));
+    },
+    runWithReport,
+    addEventListener: (type, listener, options) => events.add(type, listener as AnyListener, options),
+    removeEventListener: (type, listener) => events.remove(type, listener as AnyListener)
+  };
+}
@@ -0,0 +1,78 @@
+export interface RateLimiterOptions {
+  /** Bucket size: calls allowed in a burst. The bucket starts full. */
+  burst: number;
+
+  /** Tokens added back per second. */
+  refillPerSecond: number;
+
+  /** Injectable clock for tests. Default Date.now. */
+  now?: () => number;
+}
+
+export interface RateLimiter {
+  /** Tokens available right now (fractional while refilling) */
+  readonly tokens: number;
+  /** Take one token if available. */
+  tryAcquire(): boolean;
+  /** Time (ms) until the next token is available; 0 if one is available now. */
+  retryAfterMs(): number;
+  /** Refill the bucket completely. */
+  reset(): void;
+}
+
+export class RateLimitedError extends Error {
+  readonly candidate: string | undefined;
+  /** Time (ms) until the candidate's bucket has a token again */
+  readonly retryAfterMs: number;
+  constructor(candidate: string | undefined, retryAfterMs: number) {
+    super(candidate === undefined ? "Rate limit exceeded" : `Rate limit exceeded for "${candidate}"`);
+    this.name = "RateLimitedError";
+    this.candidate = candidate;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Create a token bucket that can be shared across `fallback()` calls by
+ * attaching it to a candidate: `{ name, run, rateLimiter }`. When the bucket
+ * is empty the candidate is skipped without being called.
+ */
+export function createRateLimiter(options: RateLimiterOptions): RateLimiter {
+  const burst = Math.max(1, options.burst);
+  const perMs = Math.max(0, options.refillPerSecond) / 1000;
+  const now = options.now ?? Date.now;
+
+  let tokens = burst;
+  let refilledAt = now();
+
+  function refill() {
+    const t = now();
+    tokens = Math.min(burst, tokens + (t - refilledAt) * perMs);
+    refilledAt = t;
+  }
+
+  return {
+    get tokens() {
+      refill();
+      return tokens;
+    },
+
+    tryAcquire() {
+      refill();
+      if (tokens < 1) return false;
+      tokens -= 1;
+      return true;
+    },
+
+    retryAfterMs() {
+      refill();
+      if (tokens >= 1) return 0;
+      return perMs > 0 ? Math.ceil((1 - tokens) / perMs) : Infinity;
+    },
+
+    reset() {
+      tokens = burst;
+      refilledAt = now();
+    }
+  };
+}
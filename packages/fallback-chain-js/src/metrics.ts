@@ -0,0 +1,240 @@
+import type { AttemptInfo, AttemptOutcome, FallbackChain, FallbackReport } from "./index.js";
+
+export interface MetricsCollectorOptions {
+  /** Upper bounds (ms) of the latency histogram buckets. */
+  buckets?: readonly number[];
+}
+
+export interface LatencyHistogram {
+  /** Cumulative counts, one per bucket upper bound (ms), ending with Infinity */
+  buckets: { le: number; count: number }[];
+  count: number;
+  sumMs: number;
+}
+
+export interface CandidateMetrics {
+  outcomes: Record<AttemptOutcome, number>;
+  latency: LatencyHistogram;
+}
+
+export interface ChainMetrics {
+  calls: { success: number; failure: number };
+  /** Successful calls by the position of the winning attempt (0 = first candidate served it) */
+  depth: Record<number, number>;
+  /** Keyed by candidate name, or `#<index>` for unnamed candidates */
+  candidates: Record<string, CandidateMetrics>;
+}
+
+export interface MetricsSnapshot {
+  chains: Record<string, ChainMetrics>;
+}
+
+/** Hooks recording attempts and calls under one chain label */
+export interface MetricsHooks {
+  onAttempt(info: AttemptInfo<unknown>): void;
+  onSuccess(report: FallbackReport<unknown>): void;
+  onFailure(error: unknown): void;
+}
+
+export interface MetricsCollector {
+  /** `onAttempt` hook recording attempts only under `chain`; use `hooks()` to count calls too. */
+  onAttempt(chain: string): (info: AttemptInfo<unknown>) => void;
+  /** Hooks recording attempts, successful calls (with depth) and failed calls: `{ ...metrics.hooks("x") }`. */
+  hooks(chain: string): MetricsHooks;
+  /** Wrap a chain so attempts, successes and failed calls are recorded under `chain`. */
+  instrument<I, T>(chain: string, target: FallbackChain<I, T>): FallbackChain<I, T>;
+  snapshot(): MetricsSnapshot;
+  reset(): void;
+}
+
+const DEFAULT_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1_000, 2_500, 5_000, 10_000];
+
+const OUTCOMES: readonly AttemptOutcome[] = [
+  "success",
+  "rejected",
+  "unacceptable",
+  "timeout",
+  "aborted",
+  "cancelled",
+  "skipped",
+  "saturated"
+];
+
+/**
+ * Aggregate `onAttempt` records into per-chain, per-candidate counters,
+ * fallback depth and latency histograms, with consistent labels everywhere.
+ */
+export function createMetricsCollector(options: MetricsCollectorOptions = {}): MetricsCollector {
+  const bounds = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+  let chains = new Map<string, ChainMetrics>();
+  // Callers joining a `singleFlight` run all get its events (the same objects): record each once.
+  let seen = new WeakSet<object>();
+  const firstSeen = (event: unknown) => {
+    if (typeof event !== "object" || event === null) return true;
+    if (seen.has(event)) return false;
+    seen.add(event);
+    return true;
+  };
+
+  function chainMetrics(chain: string): ChainMetrics {
+    let m = chains.get(chain);
+    if (!m) {
+      m = { calls: { success: 0, failure: 0 }, depth: {}, candidates: {} };
+      chains.set(chain, m);
+    }
+    return m;
+  }
+
+  function candidateMetrics(m: ChainMetrics, label: string): CandidateMetrics {
+    let c = m.candidates[label];
+    if (!c) {
+      c = {
+        outcomes: Object.fromEntries(OUTCOMES.map((o) => [o, 0])) as Record<AttemptOutcome, number>,
+        latency: {
+          buckets: [...bounds, Infinity].map((le) => ({ le, count: 0 })),
+          count: 0,
+          sumMs: 0
+        }
+      };
+      m.candidates[label] = c;
+    }
+    return c;
+  }
+
+  function record(chain: string, info: AttemptInfo<unknown>) {
+    if (!firstSeen(info)) return;
+    const m = chainMetrics(chain);
+    const c = candidateMetrics(m, info.name ?? `#${info.index}`);
+    c.outcomes[info.outcome]++;
+
+    // Skipped and saturated candidates were never called.
+    if (info.outcome !== "skipped" && info.outcome !== "saturated") {
+      for (const bucket of c.latency.buckets) if (info.durationMs <= bucket.le) bucket.count++;
+      c.latency.count++;
+      c.latency.sumMs += info.durationMs;
+    }
+  }
+
+  // Calls are counted from the call-level hooks, once per call whatever the mode
+  // (`consensus()` has several successful attempts per call).
+  function recordCall(chain: string, report?: FallbackReport<unknown>, error?: unknown) {
+    if (!firstSeen(report ?? error)) return;
+    const m = chainMetrics(chain);
+    if (!report) {
+      m.calls.failure++;
+      return;
+    }
+    m.calls.success++;
+    const { attempt } = report.winner;
+    m.depth[attempt] = (m.depth[attempt] ?? 0) + 1;
+  }
+
+  const collector: MetricsCollector = {
+    onAttempt: (chain) => (info) => record(chain, info),
+
+    hooks: (chain) => ({
+      onAttempt: (info) => record(chain, info),
+      onSuccess: (report) => recordCall(chain, report),
+      onFailure: (error) => recordCall(chain, undefined, error)
+    }),
+
+    instrument(chain, target) {
+      // Through the hooks, so calls are counted per run: callers joining a `singleFlight`
+      // run get its events too, but they are recorded once.
+      const hooks = collector.hooks(chain);
+      return {
+        ...target,
+        run: (input, overrides = {}) => target.run(input, withHooks(overrides, hooks)),
+        runWithReport: (input, overrides = {}) => target.runWithReport(input, withHooks(overrides, hooks))
+      };
+    },
+
+    snapshot() {
+      return structuredClone({ chains: Object.fromEntries(chains) as Record<string, ChainMetrics> });
+    },
+
+    reset() {
+      chains = new Map();
+      seen = new WeakSet();
+    }
+  };
+
+  return collector;
+}
+
+type HookOptions = { [K in keyof MetricsHooks]?: (...args: any[]) => void };
+
+function withHooks<O extends HookOptions>(options: O, hooks: MetricsHooks): O {
+  const out: HookOptions = { ...options };
+  for (const name of Object.keys(hooks) as (keyof MetricsHooks)[]) {
+    const own = options[name];
+    const hook = hooks[name] as (...args: any[]) => void;
+    out[name] = (...args: any[]) => {
+      hook(...args);
+      own?.(...args);
+    };
+  }
+  return out as O;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Prometheus text exposition
+// ─────────────────────────────────────────────────────────────
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function labels(pairs: Record<string, string>): string {
+  const body = Object.entries(pairs)
+    .map(([k, v]) => `${k}="${escapeLabel(v)}"`)
+    .join(",");
+  return `{${body}}`;
+}
+
+/** Render a snapshot in the Prometheus text exposition format (durations in seconds). */
+export function formatPrometheus(snapshot: MetricsSnapshot, options: { prefix?: string } = {}): string {
+  const prefix = options.prefix ?? "fallback";
+  const lines: string[] = [];
+  const chains = Object.entries(snapshot.chains);
+
+  lines.push(`# HELP ${prefix}_calls_total Calls by chain and result.`);
+  lines.push(`# TYPE ${prefix}_calls_total counter`);
+  for (const [chain, m] of chains) {
+    lines.push(`${prefix}_calls_total${labels({ chain, result: "success" })} ${m.calls.success}`);
+    lines.push(`${prefix}_calls_total${labels({ chain, result: "failure" })} ${m.calls.failure}`);
+  }
+
+  lines.push(`# HELP ${prefix}_depth_total Successful calls by position of the winning attempt.`);
+  lines.push(`# TYPE ${prefix}_depth_total counter`);
+  for (const [chain, m] of chains) {
+    for (const [depth, count] of Object.entries(m.depth)) {
+      lines.push(`${prefix}_depth_total${labels({ chain, depth })} ${count}`);
+    }
+  }
+
+  lines.push(`# HELP ${prefix}_attempts_total Attempts by chain, candidate and outcome.`);
+  lines.push(`# TYPE ${prefix}_attempts_total counter`);
+  for (const [chain, m] of chains) {
+    for (const [candidate, c] of Object.entries(m.candidates)) {
+      for (const [outcome, count] of Object.entries(c.outcomes)) {
+        lines.push(`${prefix}_attempts_total${labels({ chain, candidate, outcome })} ${count}`);
+      }
+    }
+  }
+
+  lines.push(`# HELP ${prefix}_attempt_duration_seconds Attempt latency by chain and candidate.`);
+  lines.push(`# TYPE ${prefix}_attempt_duration_seconds histogram`);
+  for (const [chain, m] of chains) {
+    for (const [candidate, c] of Object.entries(m.candidates)) {
+      for (const { le, count } of c.latency.buckets) {
+        const bound = le === Infinity ? "+Inf" : String(le / 1000);
+        lines.push(`${prefix}_attempt_duration_seconds_bucket${labels({ chain, candidate, le: bound })} ${count}`);
+      }
+      lines.push(`${prefix}_attempt_duration_seconds_sum${labels({ chain, candidate })} ${c.latency.sumMs / 1000}`);
+      lines.push(`${prefix}_attempt_duration_seconds_count${labels({ chain, candidate })} ${c.latency.count}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,186 @@
+import {
+  fallback,
+  type AttemptContext,
+  type AttemptInfo,
+  type AttemptStartInfo,
+  type Candidate,
+  type CandidateFn,
+  type FallbackChain,
+  type FallbackOptions
+} from "./index.js";
+import { field } from "./classify.js";
+
+// Structural subset of `@opentelemetry/api`, so the core stays dependency-free.
+
+export type AttributeValue = string | number | boolean;
+
+export interface SpanLike {
+  setAttribute(key: string, value: AttributeValue): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): unknown;
+  end(endTime?: number): void;
+}
+
+export interface TracerLike {
+  startSpan(
+    name: string,
+    options?: { startTime?: number; attributes?: Record<string, AttributeValue> },
+    context?: any
+  ): SpanLike;
+}
+
+/** `import * as api from "@opentelemetry/api"` satisfies this. */
+export interface OtelApiLike {
+  trace: { setSpan(context: any, span: any): any };
+  context: { active(): any; with(context: any, fn: () => any): any };
+}
+
+export interface TracingOptions {
+  tracer: TracerLike;
+  /**
+   * Needed to nest spans: attempt spans under the call span, and spans created inside
+   * candidates under their attempt (`traceFallback`) or under the call (`traceChain`).
+   */
+  api?: OtelApiLike;
+  /** Name of the call span; attempt spans are named `${spanName} attempt`. Default "fallback". */
+  spanName?: string;
+  /** Extra attributes for the call span (e.g. `{ "fallback.chain": "page" }`). */
+  attributes?: Record<string, AttributeValue>;
+}
+
+// SpanStatusCode values from @opentelemetry/api
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+const FAILED_OUTCOMES = new Set(["rejected", "unacceptable", "timeout", "aborted"]);
+
+function errorType(error: unknown): string {
+  const name = field(error, "name");
+  return typeof name === "string" ? name : typeof error;
+}
+
+function errorMessage(error: unknown): string {
+  const message = field(error, "message");
+  return typeof message === "string" ? message : String(error);
+}
+
+function recordError(span: SpanLike, error: unknown): void {
+  span.recordException(error instanceof Error ? error : errorMessage(error));
+  span.setAttribute("error.type", errorType(error));
+  span.setStatus({ code: STATUS_ERROR, message: errorMessage(error) });
+}
+
+/** Runs `fn` inside the span of the attempt `ctx` belongs to (when there is one). */
+type InAttempt = <R>(ctx: AttemptContext<unknown>, fn: () => R) => R;
+
+function attemptKey(info: { attempt: number; retry: number }): string {
+  return `${info.attempt}:${info.retry}`;
+}
+
+function attemptAttributes(info: AttemptStartInfo | AttemptInfo<unknown>): Record<string, AttributeValue> {
+  const attributes: Record<string, AttributeValue> = {
+    "fallback.attempt": info.attempt,
+    "fallback.candidate.index": info.index,
+    "fallback.retry": info.retry
+  };
+  if (info.name !== undefined) attributes["fallback.candidate.name"] = info.name;
+  return attributes;
+}
+
+async function traced<T, R>(
+  tracing: TracingOptions,
+  options: FallbackOptions<T>,
+  run: (options: FallbackOptions<T>, inAttempt: InAttempt) => Promise<R>
+): Promise<R> {
+  const { tracer, api } = tracing;
+  const spanName = tracing.spanName ?? "fallback";
+  const span = tracer.startSpan(spanName, tracing.attributes ? { attributes: tracing.attributes } : {});
+  const parent = api ? api.trace.setSpan(api.context.active(), span) : undefined;
+
+  // Attempt spans are open from `onAttemptStart` until the attempt is reported to `onAttempt`.
+  const open = new Map<string, SpanLike>();
+  let attempts = 0;
+
+  const onAttemptStart = (info: AttemptStartInfo) => {
+    open.set(attemptKey(info), tracer.startSpan(`${spanName} attempt`, { attributes: attemptAttributes(info) }, parent));
+    options.onAttemptStart?.(info);
+  };
+
+  const onAttempt = (info: AttemptInfo<T>) => {
+    attempts++;
+    const endTime = Date.now();
+    const key = attemptKey(info);
+    // Skipped candidates were never started: their span covers just the skip.
+    const child =
+      open.get(key) ??
+      tracer.startSpan(
+        `${spanName} attempt`,
+        { startTime: endTime - info.durationMs, attributes: attemptAttributes(info) },
+        parent
+      );
+    open.delete(key);
+
+    child.setAttribute("fallback.outcome", info.outcome);
+    child.setAttribute("fallback.duration_ms", info.durationMs);
+    if (info.outcome === "success") child.setStatus({ code: STATUS_OK });
+    else if (FAILED_OUTCOMES.has(info.outcome)) recordError(child, info.error);
+    else if (info.error !== undefined) child.setAttribute("error.type", errorType(info.error));
+    child.end(endTime);
+
+    if (info.outcome === "success") {
+      span.setAttribute("fallback.winner.index", info.index);
+      if (info.name !== undefined) span.setAttribute("fallback.winner.name", info.name);
+    }
+    options.onAttempt?.(info);
+  };
+
+  const inAttempt: InAttempt = (ctx, fn) => {
+    const child = open.get(attemptKey(ctx));
+    return api && child ? api.context.with(api.trace.setSpan(api.context.active(), child), fn) : fn();
+  };
+
+  try {
+    const traceOptions = { ...options, onAttemptStart, onAttempt };
+    const result: R = await (api && parent !== undefined
+      ? api.context.with(parent, () => run(traceOptions, inAttempt))
+      : run(traceOptions, inAttempt));
+    span.setStatus({ code: STATUS_OK });
+    return result;
+  } catch (err) {
+    recordError(span, err);
+    throw err;
+  } finally {
+    for (const child of open.values()) child.end();
+    span.setAttribute("fallback.attempts", attempts);
+    span.end();
+  }
+}
+
+/** Run a candidate inside its attempt span, so spans it creates nest under that attempt. */
+function withinAttempt<T>(candidate: Candidate<T>, inAttempt: InAttempt): Candidate<T> {
+  if (typeof candidate === "function") return (ctx) => inAttempt(ctx, () => candidate(ctx));
+  const run = candidate.run as CandidateFn<unknown>;
+  return { ...candidate, run: (ctx: AttemptContext) => inAttempt(ctx, () => run(ctx)) } as Candidate<T>;
+}
+
+/** `fallback()` with one span for the call and one child span per attempt. */
+export function traceFallback<T>(
+  tracing: TracingOptions,
+  candidates: readonly Candidate<T>[],
+  options: FallbackOptions<T> = {}
+): Promise<T> {
+  return traced(tracing, options, (traceOptions, inAttempt) =>
+    fallback(candidates.map((c) => withinAttempt(c, inAttempt)), traceOptions)
+  );
+}
+
+/** Wrap a chain so every `run()` / `runWithReport()` is traced. */
+export function traceChain<I, T>(chain: FallbackChain<I, T>, tracing: TracingOptions): FallbackChain<I, T> {
+  return {
+    ...chain,
+    run: (input, overrides = {}) =>
+      traced(tracing, overrides, (traceOptions) => chain.run(input, traceOptions)),
+    runWithReport: (input, overrides = {}) =>
+      traced(tracing, overrides, (traceOptions) => chain.runWithReport(input, traceOptions))
+  };
+}
@@ -0,0 +1,76 @@
+import type { AttemptInfo, AttemptOutcome } from "./index.js";
+
+/** JSON-safe view of an error (or any thrown value) */
+export interface SerializedError {
+  name: string;
+  message: string;
+  code?: string | number;
+  status?: number;
+  cause?: SerializedError;
+}
+
+/** JSON-safe view of an `onAttempt` record */
+export interface SerializedAttempt {
+  attempt: number;
+  index: number;
+  retry: number;
+  name?: string;
+  outcome: AttemptOutcome;
+  durationMs: number;
+  retryDelayMs?: number;
+  cost?: number;
+  error?: SerializedError;
+  value?: unknown;
+}
+
+export interface SerializeOptions {
+  /** Rewrite every message before it leaves the process (strip tokens, emails, URLs, ...). */
+  redact?: (text: string) => string;
+  /** How many `cause` links to follow. Default 5. */
+  maxCauseDepth?: number;
+  /** Include resolved values of attempts as-is; they must be JSON-safe. Default false. */
+  includeValue?: boolean;
+}
+
+export function serializeError(error: unknown, options: SerializeOptions = {}): SerializedError {
+  return serializeErrorAt(error, options, options.maxCauseDepth ?? 5);
+}
+
+function serializeErrorAt(error: unknown, options: SerializeOptions, depth: number): SerializedError {
+  const redact = options.redact ?? ((text: string) => text);
+
+  if (!error || typeof error !== "object") {
+    return { name: "NonError", message: redact(String(error)) };
+  }
+
+  const e = error as { name?: unknown; message?: unknown; code?: unknown; status?: unknown; cause?: unknown };
+  const out: SerializedError = {
+    name: typeof e.name === "string" ? e.name : "Error",
+    message: redact(typeof e.message === "string" ? e.message : String(error))
+  };
+  if (typeof e.code === "string" || typeof e.code === "number") out.code = e.code;
+  if (typeof e.status === "number") out.status = e.status;
+  if (e.cause !== undefined && depth > 0) out.cause = serializeErrorAt(e.cause, options, depth - 1);
+  return out;
+}
+
+/**
+ * Turn an `onAttempt` record into a stable, JSON-safe object that is safe to
+ * log or store: raw errors become `SerializedError`s and values are dropped
+ * unless `includeValue` is set.
+ */
+export function serializeAttempt(info: AttemptInfo<unknown>, options: SerializeOptions = {}): SerializedAttempt {
+  const out: SerializedAttempt = {
+    attempt: info.attempt,
+    index: info.index,
+    retry: info.retry,
+    outcome: info.outcome,
+    durationMs: info.durationMs
+  };
+  if (info.name !== undefined) out.name = info.name;
+  if (info.retryDelayMs !== undefined) out.retryDelayMs = info.retryDelayMs;
+  if (info.cost !== undefined) out.cost = info.cost;
+  if (info.error !== undefined) out.error = serializeError(info.error, options);
+  if (options.includeValue && "value" in info) out.value = info.value;
+  return out;
+}
@@ -0,0 +1,254 @@
+import type { AttemptInfo } from "./index.js";
+
+/** What a strategy knows about each declared candidate */
+export interface CandidateDescriptor {
+  index: number;
+  name?: string;
+  /** Lower tiers are tried first. Default 0. */
+  tier: number;
+  /** Relative share of traffic within a tier for weighted selection. Default 1. */
+  weight: number;
+  /** Cost of one call. Default 0. */
+  cost: number;
+  /** Default []. */
+  tags: readonly string[];
+  /** Default {}. */
+  meta: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * Decides the run order of a chain's candidates for each call and may learn
+ * from the attempts it observes. Strategies are stateful and belong to one chain.
+ */
+export interface CandidateStrategy<I = unknown> {
+  /** Candidate indices to try, in order. */
+  select(candidates: readonly CandidateDescriptor[], input: I): readonly number[];
+  /** Called with every attempt of every call made through the chain. */
+  observe?(info: AttemptInfo<unknown>): void;
+}
+
+export interface HealthStrategyOptions {
+  /** EWMA smoothing factor in (0, 1]; higher reacts faster. Default 0.3. */
+  alpha?: number;
+
+  /** A candidate is degraded once its success-rate EWMA drops below this. Default 0.5. */
+  minSuccessRate?: number;
+
+  /** A candidate is also degraded once its latency EWMA exceeds this (ms). Disabled by default. */
+  maxLatencyMs?: number;
+
+  /** Move a degraded candidate to the front if it has not been tried for this long (ms). Default 30000. */
+  probeIntervalMs?: number;
+
+  /** Chance (0..1) per call of probing the best degraded candidate anyway. Default 0. */
+  probeRate?: number;
+
+  /** Injectable clock and random source, for deterministic tests. */
+  now?: () => number;
+  random?: () => number;
+}
+
+export interface CandidateHealth {
+  successRate: number;
+  latencyMs: number | undefined;
+  lastAttemptAt: number | undefined;
+  degraded: boolean;
+}
+
+export interface HealthStrategy extends CandidateStrategy {
+  /** Current health per declared candidate index. */
+  health(index: number): CandidateHealth;
+}
+
+/**
+ * Keep healthy candidates in their declared order and move degraded ones
+ * (low success rate or high latency, tracked as EWMAs) behind them. Degraded
+ * candidates are periodically moved back to the front for a single probe call
+ * so they can recover.
+ */
+export function createHealthStrategy(options: HealthStrategyOptions = {}): HealthStrategy {
+  const alpha = options.alpha ?? 0.3;
+  const minSuccessRate = options.minSuccessRate ?? 0.5;
+  const probeIntervalMs = options.probeIntervalMs ?? 30_000;
+  const probeRate = options.probeRate ?? 0;
+  const now = options.now ?? Date.now;
+  const random = options.random ?? Math.random;
+
+  const stats = new Map<number, { successRate: number; latencyMs?: number; lastAttemptAt?: number }>();
+
+  function entry(index: number) {
+    let s = stats.get(index);
+    if (!s) {
+      s = { successRate: 1 };
+      stats.set(index, s);
+    }
+    return s;
+  }
+
+  function isDegraded(index: number): boolean {
+    const s = entry(index);
+    if (s.successRate < minSuccessRate) return true;
+    return (
+      options.maxLatencyMs !== undefined &&
+      s.latencyMs !== undefined &&
+      s.latencyMs > options.maxLatencyMs
+    );
+  }
+
+  return {
+    select(candidates) {
+      const healthy: number[] = [];
+      const degraded: number[] = [];
+      for (const c of candidates) (isDegraded(c.index) ? degraded : healthy).push(c.index);
+
+      degraded.sort((a, b) => entry(b).successRate - entry(a).successRate);
+
+      const t = now();
+      let probe = degraded.findIndex(
+        (i) => t - (entry(i).lastAttemptAt ?? Number.NEGATIVE_INFINITY) >= probeIntervalMs
+      );
+      if (probe === -1 && degraded.length > 0 && random() < probeRate) probe = 0;
+
+      if (probe === -1) return [...healthy, ...degraded];
+
+      const [probed] = degraded.splice(probe, 1);
+      // Claim the probe now so concurrent calls don't all probe the same candidate.
+      entry(probed!).lastAttemptAt = t;
+      return [probed!, ...healthy, ...degraded];
+    },
+
+    observe(info) {
+      const s = entry(info.index);
+      if (info.outcome === "success") s.successRate += alpha * (1 - s.successRate);
+      else if (
+        info.outcome === "rejected" ||
+        info.outcome === "timeout" ||
+        info.outcome === "unacceptable"
+      ) {
+        s.successRate += alpha * (0 - s.successRate);
+      } else return;
+
+      if (info.outcome === "success" || info.outcome === "timeout") {
+        s.latencyMs =
+          s.latencyMs === undefined
+            ? info.durationMs
+            : s.latencyMs + alpha * (info.durationMs - s.latencyMs);
+      }
+      s.lastAttemptAt = now();
+    },
+
+    health(index) {
+      const s = entry(index);
+      return {
+        successRate: s.successRate,
+        latencyMs: s.latencyMs,
+        lastAttemptAt: s.lastAttemptAt,
+        degraded: isDegraded(index)
+      };
+    }
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Load spreading
+// ─────────────────────────────────────────────────────────────
+
+export interface RandomOptions {
+  /** Random source in [0, 1). Use `seededRandom(seed)` for reproducible orders. Default Math.random. */
+  random?: () => number;
+}
+
+/** Small deterministic PRNG (mulberry32) for reproducible strategies in tests. */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Group candidates by tier (ascending), keeping declared order inside each tier. */
+function byTier(candidates: readonly CandidateDescriptor[]): CandidateDescriptor[][] {
+  const tiers = new Map<number, CandidateDescriptor[]>();
+  for (const c of candidates) {
+    const group = tiers.get(c.tier);
+    if (group) group.push(c);
+    else tiers.set(c.tier, [c]);
+  }
+  return [...tiers.keys()].sort((a, b) => a - b).map((tier) => tiers.get(tier)!);
+}
+
+function shuffle(group: readonly CandidateDescriptor[], random: () => number): number[] {
+  const out = group.map((c) => c.index);
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j]!, out[i]!];
+  }
+  return out;
+}
+
+/** Weighted sampling without replacement; zero-weight candidates go last in declared order. */
+function weightedOrder(group: readonly CandidateDescriptor[], random: () => number): number[] {
+  const pool = group.filter((c) => c.weight > 0);
+  const out: number[] = [];
+  while (pool.length > 0) {
+    const total = pool.reduce((sum, c) => sum + c.weight, 0);
+    let r = random() * total;
+    let pick = pool.length - 1;
+    for (let i = 0; i < pool.length; i++) {
+      r -= pool[i]!.weight;
+      if (r < 0) {
+        pick = i;
+        break;
+      }
+    }
+    out.push(pool.splice(pick, 1)[0]!.index);
+  }
+  for (const c of group) if (!(c.weight > 0)) out.push(c.index);
+  return out;
+}
+
+/**
+ * Spread traffic by weight: within each tier, the first candidate is picked with
+ * probability proportional to its `weight`, then the next among the rest, and so on.
+ */
+export function createWeightedStrategy(options: RandomOptions = {}): CandidateStrategy {
+  const random = options.random ?? Math.random;
+  return {
+    select: (candidates) => byTier(candidates).flatMap((group) => weightedOrder(group, random))
+  };
+}
+
+/** Rotate the starting candidate of each tier on every call. */
+export function createRoundRobinStrategy(): CandidateStrategy {
+  const offsets = new Map<number, number>();
+  return {
+    select: (candidates) =>
+      byTier(candidates).flatMap((group) => {
+        const tier = group[0]!.tier;
+        const offset = offsets.get(tier) ?? 0;
+        offsets.set(tier, (offset + 1) % group.length);
+        return group.map((_, i) => group[(offset + i) % group.length]!.index);
+      })
+  };
+}
+
+export interface ShuffleStrategyOptions extends RandomOptions {
+  /** Shuffle only the first tier (default) or every tier. */
+  tiers?: "first" | "all";
+}
+
+/** Shuffle equivalent candidates: by default the first tier is shuffled and later tiers keep their order. */
+export function createShuffleStrategy(options: ShuffleStrategyOptions = {}): CandidateStrategy {
+  const random = options.random ?? Math.random;
+  const all = options.tiers === "all";
+  return {
+    select: (candidates) =>
+      byTier(candidates).flatMap((group, i) =>
+        i === 0 || all ? shuffle(group, random) : group.map((c) => c.index)
+      )
+  };
+}
@@ -0,0 +1,39 @@
+// Type-level tests against the published declarations, checked on the oldest supported
+// TypeScript by `pnpm typecheck:min` (never run).
+import {
+  acceptOk,
+  acceptStatus,
+  allOf,
+  and,
+  anyOf,
+  fallback,
+  isRateLimitError,
+  not,
+  or,
+  retryableHttp
+} from "../dist/index.js";
+
+type Equal<A, B> = (<V>() => V extends A ? 1 : 2) extends <V>() => V extends B ? 1 : 2 ? true : false;
+const expectType = <T extends true>(_: T) => {};
+
+export async function combinators() {
+  // Predicates over different shapes combine; the value type comes from `accept`/`retryable`
+  const res = await fallback([() => fetch("https://a.example")], {
+    accept: or(acceptOk, acceptStatus(304)),
+    retryable: and(retryableHttp, not(isRateLimitError))
+  });
+  expectType<Equal<typeof res, Response>>(true);
+
+  // Inline checks are contextually typed from the chain value
+  await fallback([() => 1], {
+    accept: allOf(
+      (value) => value > 0,
+      anyOf((value) => value < 10, async () => ({ ok: false, reason: "too big" }))
+    )
+  });
+
+  await fallback([() => 1], {
+    // @ts-expect-error the chain value is a number
+    accept: or((value) => value.length > 0)
+  });
+}
@@ -0,0 +1,126 @@
+import test from "node:test";
+import { createRequire } from "node:module";
+import assert from "node:assert/strict";
+import * as api from "@opentelemetry/api";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor
+} from "@opentelemetry/sdk-trace-base";
+import { createFallbackChain, FallbackError } from "../dist/index.js";
+import { traceChain, traceFallback } from "../dist/otel.js";
+
+function setup() {
+  const exporter = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+  return { exporter, tracer: provider.getTracer("fallback-chain-js-test") };
+}
+
+if (typeof Bun === "undefined") {
+  test("otel: parent span with one child span per attempt", async () => {
+    const { exporter, tracer } = setup();
+
+    const out = await traceFallback({ tracer, api }, [
+      { name: "primary", run: () => Promise.reject(new TypeError("down")) },
+      { name: "backup", run: () => "ok" }
+    ]);
+    assert.equal(out, "ok");
+
+    const spans = exporter.getFinishedSpans();
+    const parent = spans.find((s) => s.name === "fallback");
+    const children = spans.filter((s) => s.name === "fallback attempt");
+
+    assert.equal(children.length, 2);
+    assert.equal(parent.attributes["fallback.winner.name"], "backup");
+    assert.equal(parent.attributes["fallback.attempts"], 2);
+    assert.equal(parent.status.code, api.SpanStatusCode.OK);
+
+    for (const child of children) {
+      assert.equal(child.parentSpanContext.spanId, parent.spanContext().spanId);
+      assert.equal(child.spanContext().traceId, parent.spanContext().traceId);
+    }
+
+    const [primary, backup] = children;
+    assert.equal(primary.attributes["fallback.candidate.name"], "primary");
+    assert.equal(primary.attributes["fallback.outcome"], "rejected");
+    assert.equal(primary.attributes["error.type"], "TypeError");
+    assert.equal(primary.status.code, api.SpanStatusCode.ERROR);
+    assert.equal(primary.events[0].name, "exception");
+    assert.equal(backup.attributes["fallback.attempt"], 1);
+    assert.equal(backup.attributes["fallback.outcome"], "success");
+    assert.equal(typeof backup.attributes["fallback.duration_ms"], "number");
+  });
+
+  test("otel: attempt spans cover the attempt and parent the candidate's spans", async () => {
+    const { exporter, tracer } = setup();
+    // Enough of a context manager for candidates that create their spans synchronously
+    let active = api.ROOT_CONTEXT;
+    api.context.setGlobalContextManager({
+      active: () => active,
+      with(context, fn, thisArg, ...args) {
+        const previous = active;
+        active = context;
+        try {
+          return fn.call(thisArg, ...args);
+        } finally {
+          active = previous;
+        }
+      },
+      bind: (_context, target) => target,
+      enable() {
+        return this;
+      },
+      disable() {
+        return this;
+      }
+    });
+
+    try {
+      await traceFallback({ tracer, api }, [
+        {
+          name: "slow",
+          run: () => {
+            tracer.startSpan("inner", {}, api.context.active()).end();
+            return new Promise((resolve) => setTimeout(() => resolve("ok"), 20));
+          }
+        }
+      ]);
+    } finally {
+      api.context.disable();
+    }
+
+    const spans = exporter.getFinishedSpans();
+    const attempt = spans.find((s) => s.name === "fallback attempt");
+    const inner = spans.find((s) => s.name === "inner");
+    assert.equal(inner.parentSpanContext.spanId, attempt.spanContext().spanId);
+    assert.equal(attempt.attributes["fallback.outcome"], "success");
+    const ms = ([s, ns]) => s * 1_000 + ns / 1e6;
+    assert.equal(ms(attempt.endTime) - ms(attempt.startTime) >= 15, true);
+  });
+
+  test("otel: traced chains record failures on the call span", async () => {
+    const { exporter, tracer } = setup();
+    const chain = traceChain(
+      createFallbackChain([{ name: "only", run: ({ input }) => Promise.reject(new Error(input)) }]),
+      { tracer, api, spanName: "page-chain", attributes: { "fallback.chain": "page" } }
+    );
+
+    await assert.rejects(chain.run("nope"), { name: "FallbackError" });
+
+    const parent = exporter.getFinishedSpans().find((s) => s.name === "page-chain");
+    assert.equal(parent.attributes["fallback.chain"], "page");
+    assert.equal(parent.attributes["error.type"], "FallbackError");
+    assert.equal(parent.status.code, api.SpanStatusCode.ERROR);
+  });
+
+  test("otel: errors are the main entry's classes in ESM and CJS", async () => {
+    const { tracer } = setup();
+    const failing = [() => Promise.reject(new Error("down"))];
+    await assert.rejects(traceFallback({ tracer }, failing), (err) => err instanceof FallbackError);
+
+    const require = createRequire(import.meta.url);
+    const core = require("../dist/index.cjs");
+    const otel = require("../dist/otel.cjs");
+    await assert.rejects(otel.traceFallback({ tracer }, failing), (err) => err instanceof core.FallbackError);
+  });
+}
@@ -4,6 +4,50 @@ import {
   acceptTruthy,
   acceptDefined,
   acceptStatus,
+  hedge,
+  race,
+  createCircuitBreaker,
+  createFallbackChain,
+  createHealthStrategy,
+  createRoundRobinStrategy,
+  createShuffleStrategy,
+  createWeightedStrategy,
+  seededRandom,
+  FallbackError,
+  fallbackWithReport,
+  serializeAttempt,
+  TimeoutError,
+  createMetricsCollector,
+  formatPrometheus,
+  fallbackStream,
+  withCache,
+  createMemoryStore,
+  createBulkhead,
+  createRateLimiter,
+  consensus,
+  and,
+  or,
+  not,
+  errorStatus,
+  errorCode,
+  retryAfterMs,
+  retryOnStatus,
+  neverOnStatus,
+  retryOnCode,
+  retryOnNetworkError,
+  retryableHttp,
+  retryableLlm,
+  isRateLimitError,
+  isContextLengthError,
+  isAuthError,
+  allOf,
+  acceptJson,
+  parseSchema,
+  mapped,
+  acceptText,
+  acceptContentType,
+  anyOf,
+  acceptSchema,
 } from "../dist/index.js";
 
 export async function runSpec(assert, makeSleep) {
@@ -98,4 +142,1308 @@ export async function runSpec(assert, makeSleep) {
     );
     assert.equal(out, 0);
   }
+
+  // 10) hedge: slow primary is overtaken by the backup and cancelled
+  {
+    const sleep = makeSleep;
+    const outcomes = [];
+    let primarySignal;
+    const out = await hedge(
+      [
+        {
+          name: "primary",
+          run: async ({ signal }) => {
+            primarySignal = signal;
+            await sleep(80);
+            return "primary";
+          }
+        },
+        { name: "backup", run: () => "backup" }
+      ],
+      {
+        hedgeDelayMs: 10,
+        onAttempt: (info) => outcomes.push(`${info.name}:${info.outcome}`)
+      }
+    );
+    assert.equal(out, "backup");
+    assert.equal(primarySignal.aborted, true);
+    assert.equal(outcomes.join(","), "backup:success,primary:cancelled");
+  }
+
+  // 11) hedge: unacceptable result starts the next candidate without waiting
+  {
+    const started = Date.now();
+    const out = await hedge(
+      [() => ({ ok: false }), () => ({ ok: true })],
+      { hedgeDelayMs: 1_000, accept: acceptOk }
+    );
+    assert.equal(out.ok, true);
+    assert.equal(Date.now() - started < 500, true);
+  }
+
+  // 12) race: first acceptable value wins, the rest are aborted
+  {
+    const sleep = makeSleep;
+    const signals = [];
+    const outcomes = [];
+    const out = await race(
+      [
+        async ({ signal }) => {
+          signals[0] = signal;
+          await sleep(5);
+          return { ok: false };
+        },
+        async ({ signal }) => {
+          signals[1] = signal;
+          await sleep(15);
+          return { ok: true, from: 1 };
+        },
+        async ({ signal }) => {
+          signals[2] = signal;
+          await sleep(80);
+          return { ok: true, from: 2 };
+        }
+      ],
+      { accept: acceptOk, onAttempt: (info) => outcomes.push(info.outcome) }
+    );
+    assert.equal(out.from, 1);
+    assert.equal(signals[2].aborted, true);
+    assert.equal(outcomes.join(","), "unacceptable,success,cancelled");
+  }
+
+  // 13) race: all fail -> FallbackError with errors in candidate order
+  {
+    const sleep = makeSleep;
+    let caught;
+    try {
+      await race([
+        async () => {
+          await sleep(20);
+          throw new Error("a");
+        },
+        () => Promise.reject(new Error("b"))
+      ]);
+    } catch (err) {
+      caught = err;
+    }
+    assert.equal(caught.name, "FallbackError");
+    assert.equal(caught.errors.map((e) => e.message).join(","), "a,b");
+  }
+
+  // 14) retries: transient failures are retried with backoff before falling through
+  {
+    const retries = [];
+    const delays = [];
+    let calls = 0;
+    const out = await fallback(
+      [
+        ({ retry }) => {
+          retries.push(retry);
+          calls++;
+          if (calls < 3) throw Object.assign(new Error("unavailable"), { status: 503 });
+          return "primary";
+        },
+        () => "backup"
+      ],
+      {
+        retries: { retries: 2, minDelayMs: 5, jitter: false },
+        onAttempt: (info) => delays.push(info.retryDelayMs)
+      }
+    );
+    assert.equal(out, "primary");
+    assert.equal(retries.join(","), "0,1,2");
+    assert.equal(delays.join(","), "5,10,");
+  }
+
+  // 15) retries: per-candidate override, exhausted retries fall through
+  {
+    let caught;
+    try {
+      await fallback(
+        [
+          { name: "primary", retries: { retries: 1, minDelayMs: 1 }, run: () => Promise.reject(new Error("p")) },
+          { name: "backup", run: () => Promise.reject(new Error("b")) }
+        ],
+        { retries: 0 }
+      );
+    } catch (err) {
+      caught = err;
+    }
+    assert.equal(caught.name, "FallbackError");
+    assert.equal(caught.errors.map((e) => e.message).join(","), "p,p,b");
+  }
+
+  // 16) retries: aborting the chain interrupts the backoff sleep
+  {
+    const controller = new AbortController();
+    const started = Date.now();
+    const pending = fallback(
+      [() => Promise.reject(new Error("fail")), () => "never"],
+      { signal: controller.signal, retries: { retries: 1, minDelayMs: 5_000, jitter: false } }
+    );
+    setTimeout(() => controller.abort(), 10);
+    await assert.rejects(pending);
+    assert.equal(Date.now() - started < 2_000, true);
+  }
+
+  // 17) circuit breaker: opens after consecutive failures and skips the candidate
+  {
+    let now = 0;
+    const breaker = createCircuitBreaker({ consecutiveFailures: 2, cooldownMs: 1_000, now: () => now });
+    let primaryCalls = 0;
+    let healthy = false;
+    const candidates = [
+      {
+        name: "primary",
+        breaker,
+        run: () => {
+          primaryCalls++;
+          if (!healthy) throw new Error("down");
+          return "primary";
+        }
+      },
+      { name: "backup", run: () => "backup" }
+    ];
+
+    await fallback(candidates);
+    await fallback(candidates);
+    assert.equal(breaker.state, "open");
+
+    const outcomes = [];
+    const out = await fallback(candidates, {
+      onAttempt: (info) => outcomes.push(`${info.name}:${info.outcome}`)
+    });
+    assert.equal(out, "backup");
+    assert.equal(primaryCalls, 2);
+    assert.equal(outcomes.join(","), "primary:skipped,backup:success");
+
+    let caught;
+    try {
+      await fallback([candidates[0]]);
+    } catch (err) {
+      caught = err;
+    }
+    assert.equal(caught.name, "FallbackError");
+    assert.equal(caught.errors[0].name, "CircuitOpenError");
+
+    // cooldown elapsed -> half-open probe succeeds -> closed
+    now = 1_000;
+    healthy = true;
+    assert.equal(breaker.state, "half-open");
+    assert.equal(await fallback(candidates), "primary");
+    assert.equal(breaker.state, "closed");
+  }
+
+  // 18) circuit breaker: failure-rate threshold, failed probe re-opens
+  {
+    let now = 0;
+    const breaker = createCircuitBreaker({
+      consecutiveFailures: Infinity,
+      failureRate: 0.5,
+      windowSize: 4,
+      cooldownMs: 100,
+      now: () => now
+    });
+    for (const ok of [true, false, true]) {
+      if (ok) breaker.recordSuccess();
+      else breaker.recordFailure();
+    }
+    assert.equal(breaker.state, "closed");
+    breaker.recordFailure();
+    assert.equal(breaker.state, "open");
+    assert.equal(breaker.tryAcquire(), false);
+
+    now = 100;
+    assert.equal(breaker.tryAcquire(), true);
+    assert.equal(breaker.tryAcquire(), false);
+    breaker.recordFailure();
+    assert.equal(breaker.state, "open");
+  }
+
+  // 19) createFallbackChain: typed input, defaults merged with per-call overrides
+  {
+    const chainLog = [];
+    const callLog = [];
+    const chain = createFallbackChain(
+      [
+        { name: "primary", run: ({ input }) => (input.id === 1 ? null : `primary:${input.id}`) },
+        { name: "backup", run: ({ input }) => `backup:${input.id}` }
+      ],
+      { accept: acceptDefined, onAttempt: (info) => chainLog.push(info.name) }
+    );
+
+    assert.equal(await chain.run({ id: 1 }), "backup:1");
+    assert.equal(await chain.run({ id: 2 }, { onAttempt: (info) => callLog.push(info.name) }), "primary:2");
+    assert.equal(chainLog.join(","), "primary,backup,primary");
+    assert.equal(callLog.join(","), "primary");
+
+    // overrides replace non-hook defaults
+    assert.equal(await chain.run({ id: 1 }, { accept: () => true }), null);
+  }
+
+  // 20) health strategy: degraded primary drops behind, then gets probed again
+  {
+    let now = 0;
+    let primaryUp = false;
+    const strategy = createHealthStrategy({ alpha: 0.5, probeIntervalMs: 1_000, now: () => now });
+    const chain = createFallbackChain(
+      [
+        {
+          name: "primary",
+          run: () => {
+            if (!primaryUp) throw new Error("degraded");
+            return "primary";
+          }
+        },
+        { name: "secondary", run: () => "secondary" }
+      ],
+      { strategy }
+    );
+
+    await chain.run();
+    await chain.run();
+    assert.equal(strategy.health(0).degraded, true);
+
+    const order = [];
+    assert.equal(await chain.run(undefined, { onAttempt: (info) => order.push(info.index) }), "secondary");
+    assert.equal(order.join(","), "1");
+
+    // probe interval elapsed -> primary is tried first again and recovers
+    now = 1_000;
+    primaryUp = true;
+    order.length = 0;
+    assert.equal(await chain.run(undefined, { onAttempt: (info) => order.push(`${info.attempt}:${info.index}`) }), "primary");
+    assert.equal(order.join(","), "0:0");
+    await chain.run();
+    assert.equal(strategy.health(0).degraded, false);
+  }
+
+  // 21) round-robin strategy rotates within a tier, later tiers stay last
+  {
+    const regions = ["us", "eu", "ap"].map((name) => ({ name, run: () => name }));
+    const chain = createFallbackChain(
+      [...regions, { name: "backup", tier: 1, run: () => "backup" }],
+      { strategy: createRoundRobinStrategy() }
+    );
+    const winners = [];
+    for (let i = 0; i < 4; i++) winners.push(await chain.run());
+    assert.equal(winners.join(","), "us,eu,ap,us");
+
+    const order = [];
+    await chain.run(undefined, { accept: () => false, onAttempt: (info) => order.push(info.name) }).catch(() => {});
+    assert.equal(order.join(","), "eu,ap,us,backup");
+  }
+
+  // 22) weighted strategy spreads traffic by weight, reproducibly with a seed
+  {
+    const runWeighted = async (seed) => {
+      const chain = createFallbackChain(
+        [
+          { name: "big", weight: 3, run: () => "big" },
+          { name: "small", weight: 1, run: () => "small" }
+        ],
+        { strategy: createWeightedStrategy({ random: seededRandom(seed) }) }
+      );
+      const winners = [];
+      for (let i = 0; i < 400; i++) winners.push(await chain.run());
+      return winners;
+    };
+    const a = await runWeighted(42);
+    const b = await runWeighted(42);
+    assert.equal(a.join(","), b.join(","));
+    const big = a.filter((w) => w === "big").length;
+    assert.equal(big > 260 && big < 340, true);
+  }
+
+  // 23) shuffle strategy: first tier shuffled, later tiers keep declared order
+  {
+    const chain = createFallbackChain(
+      [
+        { name: "a", run: () => "a" },
+        { name: "b", run: () => "b" },
+        { name: "c", run: () => "c" },
+        { name: "x", tier: 1, run: () => "x" },
+        { name: "y", tier: 1, run: () => "y" }
+      ],
+      { strategy: createShuffleStrategy({ random: seededRandom(7) }), accept: () => false }
+    );
+    const firsts = new Set();
+    for (let i = 0; i < 20; i++) {
+      const order = [];
+      await chain.run(undefined, { onAttempt: (info) => order.push(info.name) }).catch(() => {});
+      assert.equal(order.slice(3).join(","), "x,y");
+      assert.equal(order.slice(0, 3).sort().join(","), "a,b,c");
+      firsts.add(order[0]);
+    }
+    assert.equal(firsts.size > 1, true);
+  }
+
+  // 24) deadlineMs caps the whole chain and throws DeadlineExceededError with partial errors
+  {
+    const sleep = makeSleep;
+    const slow = async () => {
+      await sleep(200);
+      return "slow";
+    };
+    const started = Date.now();
+    let caught;
+    try {
+      await fallback([slow, slow, slow], { timeoutMs: 1_000, deadlineMs: 30 });
+    } catch (err) {
+      caught = err;
+    }
+    assert.equal(Date.now() - started < 150, true);
+    assert.equal(caught.name, "DeadlineExceededError");
+    assert.equal(caught instanceof FallbackError, true);
+    assert.equal(caught.deadlineMs, 30);
+    assert.equal(caught.errors.length, 1);
+    assert.equal(caught.errors[0].name, "TimeoutError");
+
+    // ... even when `retryable` would stop on that timeout
+    await assert.rejects(
+      fallback([slow, slow], { timeoutMs: 1_000, deadlineMs: 30, retryable: () => false }),
+      (err) => err.name === "DeadlineExceededError" && err.errors[0]?.name === "TimeoutError"
+    );
+  }
+
+  // 25) remainingMs is exposed to candidates
+  {
+    const seen = [];
+    await fallback(
+      [
+        ({ remainingMs }) => {
+          seen.push(remainingMs);
+          throw new Error("fail");
+        },
+        ({ remainingMs }) => (remainingMs < 10_000 ? "cheap" : "full")
+      ],
+      { deadlineMs: 5_000 }
+    );
+    assert.equal(seen[0] > 4_000 && seen[0] <= 5_000, true);
+
+    const out = await fallback([({ remainingMs }) => remainingMs]);
+    assert.equal(out, Infinity);
+  }
+
+  // 26) fallbackWithReport: value, winner and every attempt
+  {
+    const report = await fallbackWithReport(
+      [
+        { name: "primary", run: () => Promise.reject(new Error("down")) },
+        { name: "backup", run: () => "ok" }
+      ]
+    );
+    assert.equal(report.value, "ok");
+    assert.equal(report.winner.name, "backup");
+    assert.equal(report.winner.attempt, 1);
+    assert.equal(report.attempts.map((a) => `${a.name}:${a.outcome}`).join(","), "primary:rejected,backup:success");
+    assert.equal(typeof report.totalDurationMs, "number");
+
+    const chain = createFallbackChain([{ name: "only", run: ({ input }) => input * 2 }]);
+    const chainReport = await chain.runWithReport(21);
+    assert.equal(chainReport.value, 42);
+    assert.equal(chainReport.winner.name, "only");
+  }
+
+  // 27) FallbackError carries the structured attempts
+  {
+    let caught;
+    try {
+      await fallback([
+        { name: "a", run: () => null },
+        { name: "b", run: () => Promise.reject(new Error("b")) }
+      ], { accept: acceptDefined });
+    } catch (err) {
+      caught = err;
+    }
+    assert.equal(caught.attempts.map((a) => `${a.name}:${a.outcome}`).join(","), "a:unacceptable,b:rejected");
+  }
+
+  // 28) errors serialize to stable JSON records
+  {
+    let caught;
+    try {
+      await fallback(
+        [
+          () => Promise.reject(Object.assign(new Error("boom", { cause: new Error("socket hang up") }), { code: "E_UPSTREAM" })),
+          () => null
+        ],
+        { accept: acceptDefined }
+      );
+    } catch (err) {
+      caught = err;
+    }
+    const json = JSON.parse(JSON.stringify(caught));
+    assert.equal(json.name, "FallbackError");
+    assert.equal(json.errors[0].code, "E_UPSTREAM");
+    assert.equal(json.errors[0].cause.message, "socket hang up");
+    assert.equal(json.errors[1].name, "UnacceptableResultError");
+    assert.equal(json.errors[1].value, undefined);
+    assert.equal(json.attempts[0].outcome, "rejected");
+    assert.equal(json.attempts[0].error.message, "boom");
+
+    assert.equal(JSON.parse(JSON.stringify(new TimeoutError(50))).timeoutMs, 50);
+
+    // Nested errors keep the fields their own toJSON() adds
+    let nested;
+    try {
+      await fallback([() => makeSleep(50).then(() => 1), () => 2], {
+        timeoutMs: 10,
+        accept: (v) => v === 1 || { ok: false, reason: "not one" }
+      });
+    } catch (err) {
+      nested = err;
+    }
+    const nestedJson = JSON.parse(JSON.stringify(nested));
+    assert.equal(nestedJson.errors[0].name, "TimeoutError");
+    assert.equal(nestedJson.errors[0].timeoutMs, 10);
+    assert.equal(nestedJson.errors[1].name, "UnacceptableResultError");
+    assert.equal(nestedJson.errors[1].reason, "not one");
+  }
+
+  // 29) serializeAttempt redacts messages and drops values by default
+  {
+    const record = serializeAttempt(
+      { attempt: 0, index: 0, retry: 0, name: "api", outcome: "rejected", durationMs: 3, value: { secret: 1 }, error: new Error("bad token sk-123") },
+      { redact: (text) => text.replace(/sk-\w+/g, "[redacted]") }
+    );
+    assert.equal(record.error.message, "bad token [redacted]");
+    assert.equal("value" in record, false);
+    assert.equal(record.name, "api");
+  }
+
+  // 30) metrics: per-candidate outcomes, depth and failed calls
+  {
+    const metrics = createMetricsCollector({ buckets: [10, 100] });
+    const chain = metrics.instrument(
+      "page",
+      createFallbackChain([
+        { name: "direct", run: ({ input }) => (input ? "ok" : Promise.reject(new Error("down"))) },
+        { name: "cache", run: ({ input }) => (input === null ? Promise.reject(new Error("miss")) : "cached") }
+      ])
+    );
+    await chain.run(true);
+    await chain.run(false);
+    await assert.rejects(chain.run(null));
+    await fallback([() => "x"], { onAttempt: metrics.onAttempt("other") });
+    // One call each, however many attempts succeeded or callers shared the run
+    await consensus([() => 1, () => 1, () => 2], { quorum: 2, ...metrics.hooks("vote") });
+    const shared = metrics.instrument(
+      "shared",
+      createFallbackChain([() => makeSleep(5).then(() => Promise.reject(new Error("down")))], { singleFlight: () => "k" })
+    );
+    const joined = await Promise.allSettled([shared.run(), shared.run()]);
+    assert.equal(joined.map((r) => r.status).join(","), "rejected,rejected");
+
+    const snap = metrics.snapshot();
+    const page = snap.chains.page;
+    assert.equal(page.calls.success, 2);
+    assert.equal(page.calls.failure, 1);
+    assert.equal(page.depth[0], 1);
+    assert.equal(page.depth[1], 1);
+    assert.equal(page.candidates.direct.outcomes.success, 1);
+    assert.equal(page.candidates.direct.outcomes.rejected, 2);
+    assert.equal(page.candidates.cache.outcomes.rejected, 1);
+    assert.equal(page.candidates.direct.latency.count, 3);
+    assert.equal(page.candidates.direct.latency.buckets.at(-1).count, 3);
+    assert.equal(snap.chains.other.candidates["#0"].outcomes.success, 1);
+    assert.equal(snap.chains.other.calls.success, 0); // onAttempt alone records attempts only
+    assert.equal(snap.chains.vote.candidates["#1"].outcomes.success, 1);
+    assert.equal(snap.chains.vote.calls.success, 1);
+    assert.equal(snap.chains.vote.depth[1], 1);
+    assert.equal(snap.chains.shared.calls.failure, 1);
+    assert.equal(snap.chains.shared.candidates["#0"].outcomes.rejected, 1);
+
+    const text = formatPrometheus(snap);
+    assert.equal(text.includes('fallback_attempts_total{chain="page",candidate="direct",outcome="rejected"} 2'), true);
+    assert.equal(text.includes('fallback_calls_total{chain="page",result="failure"} 1'), true);
+    assert.equal(text.includes('fallback_attempt_duration_seconds_bucket{chain="page",candidate="cache",le="+Inf"} 2'), true);
+    assert.equal(text.includes("# TYPE fallback_attempt_duration_seconds histogram"), true);
+
+    metrics.reset();
+    assert.equal(Object.keys(metrics.snapshot().chains).length, 0);
+  }
+
+  // 31) lifecycle hooks fire in order around the call
+  {
+    const events = [];
+    const value = await fallback(
+      [
+        { name: "primary", run: () => Promise.reject(new Error("down")) },
+        { name: "backup", run: () => "ok" }
+      ],
+      {
+        onStart: ({ candidates }) => events.push(`start:${candidates}`),
+        onAttemptStart: ({ name, elapsedMs }) => events.push(`attemptstart:${name}:${typeof elapsedMs}`),
+        onAttempt: ({ name, outcome }) => events.push(`attempt:${name}:${outcome}`),
+        onFallback: (from, to, reason) => events.push(`fallback:${from.name}->${to.name}:${reason.outcome}`),
+        onSuccess: (report) => events.push(`success:${report.winner.name}:${report.value}`),
+        onFailure: () => events.push("failure")
+      }
+    );
+    assert.equal(value, "ok");
+    assert.equal(
+      events.join(","),
+      "start:2,attemptstart:primary:number,attempt:primary:rejected,fallback:primary->backup:rejected," +
+        "attemptstart:backup:number,attempt:backup:success,success:backup:ok"
+    );
+
+    let failure;
+    await assert.rejects(
+      fallback([() => Promise.reject(new Error("x"))], {
+        onFailure: (error, info) => (failure = `${error.name}:${info.attempts.length}`)
+      })
+    );
+    assert.equal(failure, "FallbackError:1");
+  }
+
+  // 32) hook exceptions are isolated and reported to onHookError
+  {
+    const hookErrors = [];
+    const value = await fallback([() => "ok", () => "never"], {
+      onAttempt: () => {
+        throw new Error("buggy logger");
+      },
+      onSuccess: () => {
+        throw new Error("buggy metrics");
+      },
+      onHookError: (err, hook) => hookErrors.push(`${hook}:${err.message}`)
+    });
+    assert.equal(value, "ok");
+    assert.equal(hookErrors.join(","), "onAttempt:buggy logger,onSuccess:buggy metrics");
+
+    const quiet = await fallback([() => "ok"], {
+      onStart: () => {
+        throw new Error("ignored");
+      }
+    });
+    assert.equal(quiet, "ok");
+  }
+
+  // 33) chains dispatch lifecycle events to listeners
+  {
+    const hookErrors = [];
+    const chain = createFallbackChain(
+      [
+        { name: "a", run: ({ input }) => (input ? "a" : Promise.reject(new Error("a down"))) },
+        { name: "b", run: () => "b" }
+      ],
+      { onHookError: (err, hook) => hookErrors.push(`${hook}:${err.message}`) }
+    );
+    const seen = [];
+    const onSuccess = (e) => seen.push(`${e.type}:${e.detail.winner.name}`);
+    chain.addEventListener("success", onSuccess);
+    chain.addEventListener("fallback", (e) => seen.push(`${e.type}:${e.detail.from.name}->${e.detail.to.name}`), { once: true });
+    chain.addEventListener("attempt", () => {
+      throw new Error("bad listener");
+    });
+    chain.addEventListener("attempt", (e) => seen.push(`attempt:${e.detail.outcome}`));
+
+    assert.equal(await chain.run(false), "b");
+    assert.equal(await chain.run(false), "b");
+    chain.removeEventListener("success", onSuccess);
+    assert.equal(await chain.run(true), "a");
+
+    assert.equal(
+      seen.join(","),
+      "attempt:rejected,fallback:a->b,attempt:success,success:b,attempt:rejected,attempt:success,success:b,attempt:success"
+    );
+    assert.equal(hookErrors.length, 5);
+    assert.equal(hookErrors[0], "onAttempt:bad listener");
+  }
+
+  // 34) fallbackStream: fails over before output on stall, error or unacceptable first chunk
+  {
+    const sleep = makeSleep;
+    const collect = async (iterable) => {
+      const out = [];
+      for await (const chunk of iterable) out.push(chunk);
+      return out;
+    };
+    const outcomes = [];
+    const chunks = await collect(
+      fallbackStream(
+        [
+          { name: "stalled", run: async function* () { await sleep(200); yield "late"; } },
+          { name: "broken", run: () => Promise.reject(new Error("connect failed")) },
+          { name: "empty", run: async function* () { yield ""; yield "x"; } },
+          {
+            name: "web",
+            run: () =>
+              new ReadableStream({
+                start(controller) {
+                  controller.enqueue("Hel");
+                  controller.enqueue("lo");
+                  controller.close();
+                }
+              })
+          }
+        ],
+        {
+          firstChunkTimeoutMs: 30,
+          accept: ([first]) => first !== undefined && first.length > 0,
+          onAttempt: ({ name, outcome }) => outcomes.push(`${name}:${outcome}`)
+        }
+      )
+    );
+    assert.equal(chunks.join(""), "Hello");
+    assert.equal(outcomes.join(","), "stalled:timeout,broken:rejected,empty:unacceptable,web:success");
+
+    let caught;
+    try {
+      await collect(fallbackStream([() => Promise.reject(new Error("a")), () => Promise.reject(new Error("b"))]));
+    } catch (err) {
+      caught = err;
+    }
+    assert.equal(caught.name, "FallbackError");
+    assert.equal(caught.errors.length, 2);
+  }
+
+  // 35) fallbackStream: mid-stream failover only with resume
+  {
+    const sleep = makeSleep;
+    const stalling = async function* () {
+      yield "a";
+      yield "b";
+      await sleep(200);
+      yield "never";
+    };
+    const received = [];
+    let caught;
+    try {
+      for await (const chunk of fallbackStream([stalling, async function* () { yield "z"; }], { idleTimeoutMs: 30 })) {
+        received.push(chunk);
+      }
+    } catch (err) {
+      caught = err;
+    }
+    assert.equal(received.join(""), "ab");
+    assert.equal(caught.name, "TimeoutError");
+
+    const resumed = [];
+    const out = [];
+    for await (const chunk of fallbackStream(
+      [
+        stalling,
+        async function* ({ emitted }) {
+          yield `+${emitted.length}`;
+        }
+      ],
+      {
+        idleTimeoutMs: 30,
+        resume: (emitted, { from, reason }) => {
+          resumed.push(`${emitted.join("")}:${from.attempt}:${reason.outcome}`);
+        }
+      }
+    )) {
+      out.push(chunk);
+    }
+    assert.equal(out.join(""), "ab+2");
+    assert.equal(resumed.join(","), "ab:0:timeout");
+
+    let signalled = false;
+    for await (const chunk of fallbackStream([
+      async function* ({ signal }) {
+        signal.addEventListener("abort", () => (signalled = true));
+        yield 1;
+        yield 2;
+      }
+    ])) {
+      assert.equal(chunk, 1);
+      break;
+    }
+    assert.equal(signalled, true);
+  }
+
+  // 36) withCache: fresh hits, stale-while-revalidate and stale-if-error
+  {
+    let t = 0;
+    const now = () => t;
+    let calls = 0;
+    let failing = false;
+    const chain = withCache(
+      createFallbackChain([
+        { name: "origin", run: ({ input }) => (failing ? Promise.reject(new Error("down")) : `${input}#${++calls}`) }
+      ]),
+      { key: (url) => url, ttlMs: 100, staleWhileRevalidateMs: 50, staleIfErrorMs: 1_000, now }
+    );
+
+    const miss = await chain.runWithReport("/a");
+    assert.equal(miss.cache, "miss");
+    assert.equal(miss.value, "/a#1");
+
+    t = 50;
+    const hit = await chain.runWithReport("/a");
+    assert.equal(hit.cache, "hit");
+    assert.equal(hit.value, "/a#1");
+    assert.equal(hit.ageMs, 50);
+    assert.equal(hit.winner.name, "origin");
+    assert.equal(hit.attempts.length, 0);
+
+    t = 120;
+    const swr = await chain.runWithReport("/a");
+    assert.equal(swr.cache, "stale");
+    assert.equal(swr.value, "/a#1");
+    await makeSleep(5); // background refresh
+    assert.equal(calls, 2);
+    assert.equal(await chain.run("/a"), "/a#2");
+
+    failing = true;
+    t = 500;
+    const sie = await chain.runWithReport("/a");
+    assert.equal(sie.cache, "stale");
+    assert.equal(sie.value, "/a#2");
+    assert.equal(sie.error.name, "FallbackError");
+
+    t = 5_000;
+    await assert.rejects(chain.run("/a"));
+
+    await chain.invalidate("/a");
+    failing = false;
+    assert.equal((await chain.runWithReport("/a")).cache, "miss");
+
+    // A throwing onError during a background refresh is swallowed, not an unhandled rejection
+    const reported = [];
+    const strict = withCache(
+      createFallbackChain([() => (failing ? Promise.reject(new Error("down")) : "fresh")]),
+      {
+        key: (url) => url,
+        ttlMs: 100,
+        staleWhileRevalidateMs: 1_000,
+        now,
+        onError: (_err, during) => {
+          reported.push(during);
+          throw new Error("onError failed");
+        }
+      }
+    );
+    await strict.run("/b");
+    failing = true;
+    t += 200;
+    assert.equal(await strict.run("/b"), "fresh");
+    await makeSleep(5);
+    assert.equal(reported.join(","), "revalidate");
+  }
+
+  // 37) createMemoryStore evicts least recently used entries
+  {
+    const store = createMemoryStore({ maxEntries: 2 });
+    const entry = (value) => ({ value, storedAt: 0, winner: { attempt: 0, index: 0, retry: 0 } });
+    store.set("a", entry(1), 1_000);
+    store.set("b", entry(2), 1_000);
+    store.get("a");
+    store.set("c", entry(3), 1_000);
+    assert.equal(store.get("b"), undefined);
+    assert.equal(store.get("a").value, 1);
+    assert.equal(store.get("c").value, 3);
+  }
+
+  // 38) singleFlight: concurrent calls share one run; it is cancelled only when every caller aborts
+  {
+    const sleep = makeSleep;
+    let runs = 0;
+    let aborted = 0;
+    const chain = createFallbackChain(
+      [
+        {
+          name: "origin",
+          run: async ({ input, signal }) => {
+            runs++;
+            signal.addEventListener("abort", () => aborted++);
+            await sleep(30);
+            return input.toUpperCase();
+          }
+        }
+      ],
+      { singleFlight: (url) => url }
+    );
+
+    const [a, b, c] = await Promise.all([
+      chain.runWithReport("x"),
+      chain.runWithReport("x"),
+      chain.run("y")
+    ]);
+    assert.equal(runs, 2);
+    assert.equal(a, b);
+    assert.equal(a.value, "X");
+    assert.equal(c, "Y");
+
+    const first = new AbortController();
+    const second = new AbortController();
+    const p1 = chain.run("z", { signal: first.signal });
+    const p2 = chain.run("z", { signal: second.signal });
+    first.abort();
+    await assert.rejects(p1);
+    assert.equal(await p2, "Z");
+    assert.equal(aborted, 0);
+    assert.equal(runs, 3);
+
+    const only = new AbortController();
+    const p3 = chain.run("w", { signal: only.signal });
+    only.abort();
+    await assert.rejects(p3);
+    await sleep(0);
+    assert.equal(aborted, 1);
+    assert.equal(await chain.run("w"), "W");
+    assert.equal(runs, 5);
+
+    // Every caller's hooks see the shared run; its listener on the chain's signal is removed afterwards
+    const chainSignal = new AbortController().signal;
+    let listening = 0;
+    const add = chainSignal.addEventListener.bind(chainSignal);
+    const remove = chainSignal.removeEventListener.bind(chainSignal);
+    chainSignal.addEventListener = (...args) => (listening++, add(...args));
+    chainSignal.removeEventListener = (...args) => (listening--, remove(...args));
+    const shared = createFallbackChain([async ({ input }) => (await sleep(5), input)], {
+      singleFlight: (key) => key,
+      signal: chainSignal
+    });
+    const seen = [];
+    const hooks = (who) => ({
+      onAttempt: ({ outcome }) => seen.push(`${who}:${outcome}`),
+      onSuccess: ({ value }) => seen.push(`${who}:${value}`)
+    });
+    await Promise.all([shared.run("k", hooks("first")), shared.run("k", hooks("joined"))]);
+    assert.equal(seen.sort().join(","), "first:k,first:success,joined:k,joined:success");
+    await shared.run("k2");
+    assert.equal(listening, 0);
+  }
+
+  // 39) bulkhead: saturated candidates are skipped or queued, shared across calls
+  {
+    const sleep = makeSleep;
+    const bulkhead = createBulkhead({ maxConcurrent: 1, maxQueue: 1, queueTimeoutMs: 200 });
+    const outcomes = [];
+    const chain = createFallbackChain(
+      [
+        { name: "backup", bulkhead, run: async () => { await sleep(30); return "backup"; } },
+        { name: "static", run: () => "static" }
+      ],
+      { onAttempt: ({ name, outcome }) => outcomes.push(`${name}:${outcome}`) }
+    );
+
+    const results = await Promise.all([chain.run(), chain.run(), chain.run()]);
+    assert.equal(results.join(","), "backup,backup,static");
+    assert.equal(outcomes.filter((o) => o === "backup:saturated").length, 1);
+    assert.equal(bulkhead.active, 0);
+    assert.equal(bulkhead.queued, 0);
+
+    let caught;
+    const busy = createBulkhead({ maxConcurrent: 1 });
+    busy.tryAcquire();
+    try {
+      await fallback([{ name: "quota", bulkhead: busy, run: () => "never" }]);
+    } catch (err) {
+      caught = err;
+    }
+    assert.equal(caught.errors[0].name, "BulkheadRejectedError");
+    assert.equal(caught.attempts[0].outcome, "saturated");
+
+    const waiting = createBulkhead({ maxConcurrent: 1, maxQueue: 5, queueTimeoutMs: 10 });
+    waiting.tryAcquire();
+    assert.equal(await waiting.acquire(), false);
+    waiting.release();
+    assert.equal(await waiting.acquire(), true);
+  }
+
+  // 40) rate limiter: an empty bucket skips the candidate without calling it
+  {
+    let t = 0;
+    const limiter = createRateLimiter({ burst: 2, refillPerSecond: 10, now: () => t });
+    let calls = 0;
+    const outcomes = [];
+    const candidates = [
+      { name: "quota", rateLimiter: limiter, run: () => `quota#${++calls}` },
+      { name: "backup", run: () => "backup" }
+    ];
+    const onAttempt = ({ name, outcome }) => outcomes.push(`${name}:${outcome}`);
+
+    assert.equal(await fallback(candidates, { onAttempt }), "quota#1");
+    assert.equal(await fallback(candidates, { onAttempt }), "quota#2");
+    assert.equal(await fallback(candidates, { onAttempt }), "backup");
+    assert.equal(calls, 2);
+    assert.equal(outcomes[2], "quota:skipped");
+    assert.equal(limiter.retryAfterMs(), 100);
+
+    t = 100;
+    assert.equal(await fallback(candidates), "quota#3");
+
+    let caught;
+    try {
+      await fallback([candidates[0]]);
+    } catch (err) {
+      caught = err;
+    }
+    assert.equal(caught.errors[0].name, "RateLimitedError");
+    assert.equal(caught.errors[0].retryAfterMs, 100);
+    assert.equal(caught.attempts[0].outcome, "skipped");
+
+    t = 10_000;
+    assert.equal(limiter.tokens, 2);
+  }
+
+  // 41) cost-aware routing: costs are summed, maxCost stops the chain, select filters per call
+  {
+    const candidates = [
+      { name: "cheap", cost: 1, tags: ["fast"], run: () => Promise.reject(new Error("down")) },
+      { name: "mid", cost: 5, tags: ["fast"], run: () => "mid" },
+      { name: "premium", cost: 20, tags: ["quality"], meta: { context: 200_000 }, run: () => "premium" }
+    ];
+
+    const report = await fallbackWithReport(candidates);
+    assert.equal(report.value, "mid");
+    assert.equal(report.totalCost, 6);
+    assert.equal(report.attempts.map((a) => a.cost).join(","), "1,5");
+
+    let caught;
+    try {
+      await fallback([candidates[0], candidates[2]], { maxCost: 10 });
+    } catch (err) {
+      caught = err;
+    }
+    assert.equal(caught.name, "BudgetExceededError");
+    assert.equal(caught.maxCost, 10);
+    assert.equal(caught.spent, 1);
+    assert.equal(caught.attempts.length, 1);
+
+    // A candidate skipped by its breaker is never charged, so it doesn't stop the call on budget
+    const tripped = createCircuitBreaker({ consecutiveFailures: 1 });
+    tripped.recordFailure();
+    const skipped = await fallbackWithReport([{ ...candidates[2], breaker: tripped }, candidates[1]], { maxCost: 10 });
+    assert.equal(skipped.value, "mid");
+    assert.equal(skipped.attempts.map((a) => a.outcome).join(","), "skipped,success");
+    assert.equal(skipped.totalCost, 5);
+
+    const seen = [];
+    const select = (described, input) => {
+      seen.push(...described.map((c) => `${c.name}:${c.cost}:${c.tags.join("+")}`));
+      return described
+        .filter((c) => input.length < 10 || (c.meta.context ?? 0) >= input.length)
+        .map((c) => c.index)
+        .reverse();
+    };
+    const chain = createFallbackChain(candidates, { select });
+    assert.equal(await chain.run("hi"), "premium");
+    assert.equal(seen.join(","), "cheap:1:fast,mid:5:fast,premium:20:quality");
+    assert.equal(await chain.run("a long prompt"), "premium");
+    const fast = (described) => described.filter((c) => c.tags.includes("fast")).map((c) => c.index);
+    assert.equal(await race(candidates, { select: fast }), "mid");
+
+    // Nothing (valid) selected: every mode rejects instead of hanging
+    const none = () => [99];
+    for (const run of [
+      () => fallback(candidates, { select: none }),
+      () => race(candidates, { select: none }),
+      () => hedge(candidates, { select: none, hedgeDelayMs: 1 }),
+      () => consensus(candidates, { select: () => [], quorum: 2 })
+    ]) {
+      await assert.rejects(run(), (err) => err.name === "FallbackError" && /select\(\) chose no candidates/.test(err.message));
+    }
+
+    // Unknown and repeated indices are dropped, from select and from a custom strategy alike
+    const tried = [];
+    const tracked = candidates.map((c) => ({ ...c, run: () => (tried.push(c.name), c.run()) }));
+    await fallback(tracked, { select: () => [0, 0, 7, -1, 1.5, 0] }).catch(() => {});
+    assert.equal(tried.join(","), "cheap");
+    tried.length = 0;
+    const sloppy = createFallbackChain(tracked, { strategy: { select: () => [0, 0, 9, 2] } });
+    assert.equal(await sloppy.run(undefined, { select: (described) => described.map((c) => c.index) }), "premium");
+    assert.equal(tried.join(","), "cheap,premium");
+    tried.length = 0;
+    assert.equal(await sloppy.run(), "premium");
+    assert.equal(tried.join(","), "cheap,premium");
+  }
+
+  // 42) consensus: resolves once quorum agrees, starts more on disagreement, aborts the rest
+  {
+    const calls = [];
+    const value = (name, v) => ({ name, run: () => (calls.push(name), v) });
+    assert.equal(await consensus([value("a", 1), value("b", 2), value("c", 1), value("d", 1)], { quorum: 2 }), 1);
+    assert.equal(calls.join(","), "a,b,c");
+
+    let slowAborted = false;
+    const outcomes = [];
+    const result = await consensus(
+      [
+        value("x", 3.0),
+        value("y", 3.05),
+        {
+          name: "slow",
+          run: async ({ signal }) => {
+            await makeSleep(50);
+            slowAborted = signal.aborted;
+            return 9;
+          }
+        }
+      ],
+      {
+        quorum: 2,
+        concurrency: 3,
+        equals: (a, b) => Math.abs(a - b) < 0.1,
+        onAttempt: ({ name, outcome }) => outcomes.push(`${name}:${outcome}`)
+      }
+    );
+    assert.equal(result, 3.0);
+    assert.equal(outcomes.join(","), "x:success,y:success,slow:cancelled");
+    await makeSleep(60);
+    assert.equal(slowAborted, true);
+
+    let caught;
+    try {
+      await consensus(
+        [value("p", "yes"), value("q", "no"), () => Promise.reject(new Error("down")), value("r", "maybe")],
+        { quorum: 2 }
+      );
+    } catch (err) {
+      caught = err;
+    }
+    assert.equal(caught.name, "ConsensusError");
+    assert.equal(caught.quorum, 2);
+    assert.equal(caught.groups.length, 3);
+    assert.equal(caught.errors.length, 1);
+    assert.equal(JSON.stringify(caught.toJSON().groupSizes), "[1,1,1]");
+  }
+
+  // 43) shadow candidates run in the background, are compared with the live value and aborted on budget
+  {
+    const compared = [];
+    const errors = [];
+    let shadowAborted = false;
+    const shadow = {
+      candidates: [
+        { name: "next", run: async ({ input }) => (await makeSleep(10), `next:${input}`) },
+        {
+          name: "stuck",
+          run: ({ signal }) =>
+            new Promise((_, reject) =>
+              signal.addEventListener("abort", () => {
+                shadowAborted = true;
+                reject(signal.reason);
+              })
+            )
+        }
+      ],
+      timeoutMs: 30,
+      compare: (live, value, info) => compared.push(`${live}=${value}@${info.name}`),
+      onError: (error, info) => errors.push(`${info.name}:${error.name}`)
+    };
+
+    const chain = createFallbackChain([({ input }) => `live:${input}`], { shadow });
+    assert.equal(await chain.run("q"), "live:q");
+    assert.equal(compared.length, 0);
+    await makeSleep(60);
+    assert.equal(compared.join(","), "live:q=next:q@next");
+    assert.equal(errors.join(","), "stuck:DeadlineExceededError");
+    assert.equal(shadowAborted, true);
+
+    compared.length = 0;
+    errors.length = 0;
+    let caught;
+    try {
+      await fallback([() => Promise.reject(new Error("down"))], { shadow });
+    } catch (err) {
+      caught = err;
+    }
+    assert.equal(caught.name, "FallbackError");
+    await makeSleep(20);
+    // The live call failed before the shadows were due to start, so they never ran.
+    assert.equal(compared.length, 0);
+    assert.equal(errors.join(","), "");
+
+    // Shadows start after the live candidate, so their synchronous work cannot delay it.
+    const order = [];
+    const busy = { ...shadow, candidates: [() => (order.push("shadow"), "s")] };
+    await fallback([() => (order.push("live"), "live")], { shadow: busy });
+    await makeSleep(5);
+    assert.equal(order.join(","), "live,shadow");
+
+    let sampled = 0;
+    const rare = { ...shadow, candidates: [() => (sampled++, "x")], sampleRate: 0.1, random: () => 0.5 };
+    assert.equal(await fallback([() => "live"], { shadow: rare }), "live");
+    assert.equal(sampled, 0);
+  }
+
+  // 44) error classifiers: status/code/Retry-After readers, presets and combinators
+  {
+    const httpError = (status, headers = {}) => Object.assign(new Error(`HTTP ${status}`), { status, headers });
+    const badRequest = httpError(400);
+
+    assert.equal(errorStatus({ response: { status: 502 } }), 502);
+    assert.equal(errorCode(Object.assign(new TypeError("fetch failed"), { cause: { code: "ECONNRESET" } })), "ECONNRESET");
+    assert.equal(retryOnNetworkError(new TypeError("fetch failed")), true);
+    assert.equal(retryAfterMs(httpError(429, { "Retry-After": "2" })), 2000);
+    assert.equal(retryAfterMs(httpError(429, new Headers({ "retry-after-ms": "150" }))), 150);
+    assert.equal(retryAfterMs(httpError(503, { "retry-after": new Date(61_000).toUTCString() }), 1_000), 60_000);
+
+    assert.equal(retryableHttp(httpError(503)), true);
+    assert.equal(retryableHttp(httpError(429)), true);
+    assert.equal(retryableHttp(badRequest), false);
+    assert.equal(retryableHttp(new Error("bad json")), true);
+
+    const anthropic = (status, type, message = "") =>
+      Object.assign(new Error(message), { status, error: { type: "error", error: { type } } });
+    const openai = (status, code, message = "") => Object.assign(new Error(message), { status, code });
+    assert.equal(isRateLimitError(anthropic(529, "overloaded_error")), true);
+    // Code only (no status): the nested type wins over the "error" envelope type
+    assert.equal(errorCode(anthropic(undefined, "rate_limit_error")), "rate_limit_error");
+    assert.equal(retryOnCode("rate_limit_error")(anthropic(undefined, "rate_limit_error")), true);
+    assert.equal(isRateLimitError(anthropic(undefined, "rate_limit_error")), true);
+    assert.equal(errorCode({ error: { type: "error" } }), undefined);
+    assert.equal(isContextLengthError(openai(400, "context_length_exceeded")), true);
+    assert.equal(isContextLengthError(anthropic(400, "invalid_request_error", "prompt is too long: 210000 tokens")), true);
+    assert.equal(isAuthError(openai(401, "invalid_api_key")), true);
+    assert.equal(retryableLlm(openai(400, "context_length_exceeded")), true);
+    assert.equal(retryableLlm(anthropic(400, "invalid_request_error", "messages: field required")), false);
+
+    const retryable = and(or(retryOnStatus(502, 503), retryOnCode("ECONNRESET")), not(neverOnStatus(503)));
+    assert.equal(retryable(httpError(503)), true);
+    assert.equal(retryable(httpError(502)), false);
+    const accept = or((res) => res.ok, (res, { retry }) => res.status === 404 && retry > 0);
+    assert.equal(accept({ ok: false, status: 404 }, { attempt: 0, retry: 1 }), true);
+    assert.equal(accept({ ok: false, status: 404 }, { attempt: 0, retry: 0 }), false);
+
+    let caught;
+    try {
+      await fallback([() => Promise.reject(badRequest), () => "never"], { retryable: retryableHttp });
+    } catch (err) {
+      caught = err;
+    }
+    assert.equal(caught, badRequest);
+
+    // respectRetryAfter: wait as asked, or fall through when the wait is too long
+    const delays = [];
+    let tries = 0;
+    const limited = {
+      name: "limited",
+      retries: { retries: 1, minDelayMs: 1, maxDelayMs: 1_000, jitter: false, respectRetryAfter: true },
+      run: () => (++tries === 1 ? Promise.reject(httpError(429, { "retry-after": "0.02" })) : "limited")
+    };
+    const onAttempt = ({ retryDelayMs }) => retryDelayMs !== undefined && delays.push(retryDelayMs);
+    assert.equal(await fallback([limited, () => "backup"], { onAttempt }), "limited");
+    assert.equal(delays.join(","), "20");
+
+    tries = 0;
+    const slow = { ...limited, run: () => (++tries === 1 ? Promise.reject(httpError(429, { "retry-after": "30" })) : "limited") };
+    assert.equal(await fallback([slow, () => "backup"]), "backup");
+    assert.equal(tries, 1);
+  }
+
+  // 45) accept: async checks, { ok: false, reason } verdicts, allOf/anyOf/not and Standard Schema
+  {
+    const atLeast = (n) => (v) => (v >= n ? true : { ok: false, reason: `below ${n}` });
+    const report = await fallbackWithReport([() => 5, () => 50], {
+      accept: allOf((v) => typeof v === "number", async (v) => atLeast(10)(v))
+    });
+    assert.equal(report.value, 50);
+    assert.equal(report.attempts[0].outcome, "unacceptable");
+    assert.equal(report.attempts[0].error.reason, "below 10");
+    assert.equal(report.attempts[0].error.message, "Unacceptable result: below 10");
+    assert.equal(report.attempts[0].error.toJSON().reason, "below 10");
+
+    const either = anyOf(atLeast(100), (v) => (v % 2 === 0 ? true : { ok: false, reason: "odd" }));
+    assert.equal(JSON.stringify(either(7)), '{"ok":false,"reason":"below 100; odd"}');
+    assert.equal(either(8), true);
+    assert.equal(not(atLeast(10))(5), true);
+    assert.equal(await not(async () => true)(1), false);
+
+    // Minimal Standard Schema, as implemented by Zod, Valibot, ArkType, ...
+    const answerSchema = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value) =>
+          typeof value?.answer === "string"
+            ? { value }
+            : { issues: [{ message: "Expected string", path: [{ key: "answer" }] }] }
+      }
+    };
+    let caught;
+    try {
+      await fallback([() => ({ answer: 42 })], { accept: acceptSchema(answerSchema) });
+    } catch (err) {
+      caught = err;
+    }
+    assert.equal(caught.errors[0].reason, "answer: Expected string");
+    const parsed = await fallback([() => JSON.parse('{"answer":1}'), () => JSON.parse('{"answer":"yes"}')], {
+      accept: acceptSchema(answerSchema)
+    });
+    assert.equal(parsed.answer, "yes");
+
+    // parseSchema as the map step: the schema's output (with transforms) becomes the value
+    const trimmed = {
+      "~standard": {
+        ...answerSchema["~standard"],
+        validate: async (value) => {
+          const result = answerSchema["~standard"].validate(value);
+          return result.issues ? result : { value: { answer: value.answer.trim() } };
+        }
+      }
+    };
+    const mappedReport = await fallbackWithReport([
+      { run: () => ({ answer: 42 }), map: parseSchema(trimmed) },
+      { run: () => ({ answer: " yes " }), map: parseSchema(trimmed) }
+    ]);
+    assert.equal(mappedReport.value.answer, "yes");
+    assert.equal(mappedReport.attempts[0].outcome, "unacceptable");
+    assert.equal(mappedReport.attempts[0].error.reason, "map failed: answer: Expected string");
+    assert.equal(mappedReport.attempts[0].error.cause.name, "SchemaValidationError");
+  }
+
+  // 46) map: normalize each candidate's raw output; a throwing map is an unacceptable result
+  {
+    const seen = [];
+    const report = await fallbackWithReport(
+      [
+        { name: "broken", run: () => ({ nope: true }), map: (raw) => raw.choices[0].message.content },
+        mapped({ name: "openai", run: () => ({ choices: [{ message: { content: "" } }] }), map: (raw) => raw.choices[0].message.content }),
+        { name: "anthropic", run: async () => ({ content: [{ text: "hi" }] }), map: async (raw) => raw.content[0].text }
+      ],
+      { accept: (v) => (seen.push(v), v.length > 0) }
+    );
+    assert.equal(report.value, "hi");
+    assert.equal(report.winner.name, "anthropic");
+    assert.equal(report.attempts[0].outcome, "unacceptable");
+    assert.equal(report.attempts[0].error.reason.startsWith("map failed: "), true);
+    assert.equal(report.attempts[1].outcome, "unacceptable");
+    assert.equal(seen.join("|"), "|hi");
+  }
+
+  // 47) acceptJson/acceptText/acceptContentType read the body once from a clone; unused bodies are cancelled
+  {
+    const respond = (body, type = "application/json") =>
+      new Response(body, { headers: { "content-type": `${type}; charset=utf-8` } });
+    const hasItems = acceptJson((json) => (json.items.length > 0 ? true : { ok: false, reason: "no items" }));
+    const report = await fallbackWithReport(
+      [
+        () => respond("<html>", "text/html"),
+        () => respond("{"),
+        () => respond('{"items":[]}'),
+        () => respond('{"items":[1]}')
+      ],
+      { accept: allOf(acceptOk, acceptContentType("application/json"), hasItems, acceptText((t) => t.length > 2)) }
+    );
+    // Rejected bodies are cancelled (which marks them used); the winner's is still unread.
+    assert.equal(report.attempts.map((a) => a.value.bodyUsed).join(","), "true,true,true,false");
+    assert.equal((await report.value.json()).items[0], 1);
+    assert.equal(report.attempts[0].error.reason, "content-type text/html");
+    assert.equal(report.attempts[1].error.reason.startsWith("invalid JSON"), true);
+    assert.equal(report.attempts[2].error.reason, "no items");
+
+    assert.equal(await acceptContentType("text/*")(respond("hi", "text/plain")), true);
+
+    // The chain cancels every Response nobody will read: rejected by any check, timed out in
+    // `accept`, or resolved after another candidate already won.
+    const sleep = makeSleep;
+    const unavailable = new Response("busy", { status: 503 });
+    const stuck = respond("{}");
+    const late = respond("{}");
+    await fallback([() => unavailable, () => respond("{}")], { accept: allOf(acceptOk, acceptJson()) });
+    await fallback([() => stuck, () => respond("{}")], {
+      timeoutMs: 20,
+      accept: (res) => (res === stuck ? new Promise(() => {}) : true)
+    });
+    await race([() => sleep(5).then(() => respond("{}")), () => sleep(20).then(() => late)]);
+    await sleep(40);
+    assert.equal([unavailable, stuck, late].map((res) => res.bodyUsed).join(","), "true,true,true");
+  }
 }
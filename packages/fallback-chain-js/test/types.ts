@@ -0,0 +1,64 @@
+// Type-level tests, checked by `pnpm typecheck` (never run).
+import {
+  createFallbackChain,
+  fallback,
+  hedge,
+  mapped,
+  parseSchema,
+  type Candidate,
+  type StandardSchemaV1
+} from "../src/index.js";
+
+type Equal<A, B> = (<V>() => V extends A ? 1 : 2) extends <V>() => V extends B ? 1 : 2 ? true : false;
+const expectType = <T extends true>(_: T) => {};
+
+declare const openai: () => Promise<{ choices: { message: { content: string } }[] }>;
+declare const anthropic: () => Promise<{ content: { text: string }[] }>;
+
+export async function mappedCandidates() {
+  // `raw` is typed from `run`, and T is the union of the mapped values
+  const text = await fallback([
+    mapped({ name: "openai", run: openai, map: (raw) => raw.choices[0]!.message.content }),
+    mapped({ name: "anthropic", run: anthropic, map: async (raw) => raw.content.length }),
+    () => true
+  ]);
+  expectType<Equal<typeof text, string | number | boolean>>(true);
+
+  // @ts-expect-error raw has no such field
+  mapped({ run: openai, map: (raw) => raw.doesNotExist });
+
+  // Inline mappers see `unknown` instead of `any`
+  // @ts-expect-error raw is unknown
+  await fallback([{ run: openai, map: (raw) => raw.choices }]);
+  const annotated = await fallback([{ run: openai, map: (raw: { choices: unknown[] }) => raw.choices.length }]);
+  expectType<Equal<typeof annotated, number>>(true);
+
+  // @ts-expect-error the value is a string, not a number
+  const wrong: number = await fallback([mapped({ run: openai, map: (raw) => raw.choices[0]!.message.content })]);
+
+  const hedged = await hedge([() => 1, mapped({ run: anthropic, map: (raw) => raw.content[0]!.text })], {
+    hedgeDelayMs: 10
+  });
+  expectType<Equal<typeof hedged, number | string>>(true);
+
+  // Mapped candidates fit a declared value type and chain input
+  const typed: Candidate<string>[] = [mapped({ run: openai, map: (raw) => raw.choices[0]!.message.content })];
+  const chain = createFallbackChain<string, number>([
+    mapped({ run: ({ input }) => input.length, map: (raw) => raw * 2 }),
+    ({ input }) => Number(input)
+  ]);
+  expectType<Equal<Awaited<ReturnType<typeof chain.run>>, number>>(true);
+
+  return [wrong, typed];
+}
+
+declare const Answer: StandardSchemaV1<unknown, { answer: string; confidence: number }>;
+
+export async function schemaCandidates() {
+  // parseSchema as the map step: validated and typed in one step, no explicit T
+  const answer = await fallback([
+    { name: "primary", run: () => JSON.parse("{}"), map: parseSchema(Answer) },
+    mapped({ name: "backup", run: anthropic, map: (raw) => parseSchema(Answer)(JSON.parse(raw.content[0]!.text)) })
+  ]);
+  expectType<Equal<typeof answer, { answer: string; confidence: number }>>(true);
+}
@@ -1,11 +1,25 @@
-import { defineConfig } from "tsup";
+import { defineConfig, type Options } from "tsup";
+
+// Subpath entries load the core from the main entry instead of bundling their own
+// copy, so error classes (and `instanceof`) are shared with it in ESM and CJS alike.
+const coreExternal: NonNullable<Options["esbuildPlugins"]>[number] = {
+  name: "core-external",
+  setup(build) {
+    // tsup builds CJS as ESM and converts it afterwards; only the extension tells them apart.
+    const path = `./index${build.initialOptions.outExtension?.[".js"] ?? ".js"}`;
+    build.onResolve({ filter: /^\.\/index\.js$/ }, (args) =>
+      args.importer.endsWith("otel.ts") ? { path, external: true } : undefined
+    );
+  }
+};
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  entry: ["src/index.ts", "src/otel.ts"],
   format: ["esm", "cjs"],
   dts: true,
   sourcemap: true,
   clean: true,
   treeshake: true,
-  target: "es2022"
+  target: "es2022",
+  esbuildPlugins: [coreExternal]
 });